@@ -7,7 +7,8 @@
 set -e
 
 # Configuration
-PROJECT_DIR="/Users/bhal/Downloads/claude/daily-tool-updates"
+SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
+PROJECT_DIR="$(dirname "$SCRIPT_DIR")"
 LOG_DIR="$PROJECT_DIR/logs"
 DATE=$(date +%Y-%m-%d)
 LOG_FILE="$LOG_DIR/$DATE.log"
@@ -15,11 +16,23 @@ LOG_FILE="$LOG_DIR/$DATE.log"
 # Ensure log directory exists
 mkdir -p "$LOG_DIR"
 
+# cron runs with a minimal PATH - make sure bun is found
+export PATH="$HOME/.bun/bin:/usr/local/bin:/opt/homebrew/bin:$PATH"
+
 # Log function
 log() {
     echo "[$(date '+%Y-%m-%d %H:%M:%S')] $1" | tee -a "$LOG_FILE"
 }
 
+# Desktop notification (macOS or Linux with notify-send), if available
+notify() {
+    if command -v osascript >/dev/null 2>&1; then
+        osascript -e "display notification \"$1\" with title \"Daily Tool Updates\"" 2>/dev/null || true
+    elif command -v notify-send >/dev/null 2>&1; then
+        notify-send "Daily Tool Updates" "$1" 2>/dev/null || true
+    fi
+}
+
 log "=========================================="
 log "Daily Tool Updates - Starting pipeline"
 log "=========================================="
@@ -35,13 +48,11 @@ if bun run src/index.ts daily >> "$LOG_FILE" 2>&1; then
 else
     log "❌ Pipeline failed"
 
-    # Send notification on macOS
-    osascript -e 'display notification "Daily tool update pipeline failed. Check logs." with title "Daily Tool Updates"' 2>/dev/null || true
+    notify "Daily tool update pipeline failed. Check logs."
     exit 1
 fi
 
-# Send success notification on macOS
-osascript -e 'display notification "Daily tool update report ready!" with title "Daily Tool Updates"' 2>/dev/null || true
+notify "Daily tool update report ready!"
 
 log "=========================================="
 log "Pipeline complete"
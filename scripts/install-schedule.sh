@@ -55,6 +55,19 @@ echo "  View logs:       cat $PROJECT_DIR/logs/\$(date +%Y-%m-%d).log"
 echo "  Uninstall:       launchctl unload $PLIST_DEST && rm $PLIST_DEST"
 echo ""
 
+# Bun loads .env from the project directory, so scheduled runs see the key
+# without it being written into the plist
+if [ -z "$DTU_COOKIE_KEY" ] && ! grep -q "^DTU_COOKIE_KEY=" "$PROJECT_DIR/.env" 2>/dev/null; then
+    echo "⚠️  WARNING: DTU_COOKIE_KEY is not set!"
+    echo ""
+    echo "Scheduled captures will use the saved cookies but can't save"
+    echo "refreshed ones. To store cookies encrypted:"
+    echo "  1. Add a secret to $PROJECT_DIR/.env:"
+    echo "     DTU_COOKIE_KEY=<long random string>"
+    echo "  2. Run: cd $PROJECT_DIR && bun run src/index.ts auth refresh"
+    echo ""
+fi
+
 # Check if Grok authentication is set up
 if [ ! -f "$PROJECT_DIR/data/.grok-cookies.json" ]; then
     echo "⚠️  WARNING: Grok authentication not set up!"
@@ -0,0 +1,263 @@
+/**
+ * Auth command - Manage the saved Grok session cookies
+ *
+ * Subcommands:
+ * - status: Cookie expiry and a test navigation to Grok Tasks
+ * - refresh: Interactive browser login (saves cookies)
+ * - clear: Remove saved cookies
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync } from "fs";
+import {
+  COOKIES_PATH,
+  clearCookies,
+  daysUntil,
+  hasCookieKey,
+  isEncrypted,
+  readCookies,
+  requireCookieKey,
+  sessionExpiry,
+} from "../services/cookies";
+import {
+  GROK_TASKS_URL,
+  checkSession,
+  isLoginUrl,
+  launchBrowser,
+  loadCookies,
+  saveCookies,
+} from "../services/grok";
+
+// Warn this many days before the saved session expires
+export const SESSION_WARNING_DAYS = 5;
+
+interface AuthStatusOptions {
+  check?: boolean; // false with --no-check
+  browser?: string;
+}
+
+interface AuthRefreshOptions {
+  browser?: string;
+}
+
+export async function authStatusCommand(
+  options: AuthStatusOptions,
+): Promise<void> {
+  const spinner = ora("Reading saved cookies...").start();
+
+  try {
+    const cookies = await readCookies();
+    if (!cookies) {
+      spinner.fail("No saved cookies");
+      console.log(chalk.yellow("  Run 'bun run src/index.ts auth refresh'"));
+      return;
+    }
+
+    const encrypted = await isEncrypted();
+    spinner.succeed(`Found ${cookies.length} saved cookies`);
+    console.log(chalk.gray(`  File: ${COOKIES_PATH}`));
+    console.log(
+      encrypted
+        ? chalk.gray("  Storage: encrypted (AES-256-GCM)")
+        : chalk.yellow(
+            "  Storage: plain text - set DTU_COOKIE_KEY and run 'auth refresh' to encrypt",
+          ),
+    );
+
+    // Per-domain expiry
+    const expiry = sessionExpiry(cookies);
+    const domains = [...new Set(expiry.cookies.map((c) => c.domain))].sort();
+
+    console.log(chalk.cyan("\n  Session cookies:"));
+    if (domains.length === 0) {
+      console.log(chalk.yellow("    None for grok.com or x.com"));
+    }
+    for (const domain of domains) {
+      const forDomain = expiry.cookies.filter((c) => c.domain === domain);
+      const expiring = forDomain
+        .filter((c) => c.expires)
+        .sort((a, b) =>
+          (a.expires as string).localeCompare(b.expires as string),
+        );
+      const latest = expiring[expiring.length - 1];
+      console.log(
+        chalk.gray(
+          `    ${domain}: ${forDomain.length} cookies${latest ? `, last expires ${formatExpiry(latest.expires as string)}` : ", session only"}`,
+        ),
+      );
+    }
+
+    if (expiry.expiresAt) {
+      const days = daysUntil(expiry.expiresAt);
+      const line = `\n  Login expires ${formatExpiry(expiry.expiresAt)} (${expiry.basedOn})`;
+      console.log(
+        days < 0
+          ? chalk.red(line)
+          : days <= SESSION_WARNING_DAYS
+            ? chalk.yellow(line)
+            : chalk.green(line),
+      );
+    }
+
+    if (options.check === false) return;
+
+    // Test navigation
+    const checkSpinner = ora("Checking session with Grok Tasks...").start();
+    try {
+      const { authenticated, finalUrl } = await checkSession(options.browser);
+      if (authenticated) {
+        checkSpinner.succeed(`Authenticated (${finalUrl})`);
+      } else {
+        checkSpinner.fail(`Not authenticated - redirected to ${finalUrl}`);
+        console.log(chalk.yellow("  Run 'bun run src/index.ts auth refresh'"));
+      }
+    } catch (error) {
+      checkSpinner.fail("Session check failed");
+      console.log(
+        chalk.red(
+          `  ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  } catch (error) {
+    spinner.fail("Failed to read auth status");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+/**
+ * Open a visible browser, wait for the login to complete and save cookies
+ */
+export async function authRefreshCommand(
+  options: AuthRefreshOptions,
+): Promise<void> {
+  const spinner = ora("Opening browser for login...").start();
+
+  try {
+    requireCookieKey();
+
+    const browser = await launchBrowser(false, options.browser);
+
+    try {
+      const page = await browser.newPage();
+      try {
+        await loadCookies(page);
+      } catch {
+        // Stale or undecryptable cookies - log in from scratch
+      }
+
+      await page.goto(GROK_TASKS_URL, {
+        waitUntil: "networkidle2",
+        timeout: 30000,
+      });
+
+      spinner.info("Browser opened - complete any verification and login");
+      console.log(
+        chalk.gray("  Cookies are saved once Grok Tasks loads signed in.\n"),
+      );
+
+      const waitSpinner = ora("Waiting for login...").start();
+      const maxWait = 10 * 60 * 1000; // 10 minutes
+      const startTime = Date.now();
+      const grokOrigin = new URL(GROK_TASKS_URL).origin;
+
+      while (Date.now() - startTime < maxWait) {
+        await new Promise((r) => setTimeout(r, 3000));
+
+        const url = page.url();
+        const signedIn =
+          url.startsWith(grokOrigin) &&
+          !isLoginUrl(url) &&
+          sessionExpiry(await page.cookies()).expiresAt !== undefined;
+
+        if (signedIn) {
+          await saveCookies(page);
+          waitSpinner.succeed("Login complete - cookies saved");
+          const expiry = sessionExpiry(await page.cookies());
+          if (expiry.expiresAt) {
+            console.log(
+              chalk.gray(`  Login expires ${formatExpiry(expiry.expiresAt)}`),
+            );
+          }
+          return;
+        }
+
+        const elapsed = Math.round((Date.now() - startTime) / 1000);
+        waitSpinner.text = `Waiting for login... (${elapsed}s) - complete it in the browser`;
+      }
+
+      waitSpinner.fail("Timed out waiting for login");
+    } finally {
+      await browser.close();
+    }
+  } catch (error) {
+    spinner.fail("Failed to refresh login");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+export async function authClearCommand(): Promise<void> {
+  const spinner = ora("Removing saved cookies...").start();
+
+  try {
+    if (await clearCookies()) {
+      spinner.succeed(`Removed ${COOKIES_PATH}`);
+    } else {
+      spinner.info("No saved cookies to remove");
+    }
+  } catch (error) {
+    spinner.fail("Failed to remove cookies");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+/**
+ * Warning line if the saved session expires soon (for the daily pipeline)
+ * @returns undefined if the session is fine or there are no cookies
+ */
+export async function sessionWarning(): Promise<string | undefined> {
+  const cookies = await readCookies();
+  if (!cookies) return undefined;
+
+  const { expiresAt } = sessionExpiry(cookies);
+  if (!expiresAt) return undefined;
+
+  const days = daysUntil(expiresAt);
+  if (days < 0) {
+    return `Grok session expired ${formatExpiry(expiresAt)} - run 'auth refresh'`;
+  }
+  if (days <= SESSION_WARNING_DAYS) {
+    return `Grok session expires in ${days} days - run 'auth refresh'`;
+  }
+  return undefined;
+}
+
+/**
+ * Warning line if the saved cookies are plain text (for the daily pipeline;
+ * capture itself warns when DTU_COOKIE_KEY is missing)
+ * @returns undefined if they are encrypted or there are none
+ */
+export async function cookieStorageWarning(): Promise<string | undefined> {
+  const plain = existsSync(COOKIES_PATH) && !(await isEncrypted());
+  if (plain && hasCookieKey()) {
+    return "Saved cookies are plain text - this capture will encrypt them";
+  }
+  if (plain) {
+    return "Saved cookies are plain text - set DTU_COOKIE_KEY and run 'auth refresh' to encrypt them";
+  }
+  return undefined;
+}
+
+function formatExpiry(isoDate: string): string {
+  const days = daysUntil(isoDate);
+  const date = isoDate.split("T")[0];
+  if (days < 0) return `${date} (${-days} days ago)`;
+  return `${date} (in ${days} days)`;
+}
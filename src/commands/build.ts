@@ -7,52 +7,76 @@ import ora from "ora";
 import { readFile, writeFile, mkdir, readdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
-import type { ToolResearch, ToolScore } from "../models/types";
+import type { InstallSpec, ToolResearch, ToolScore } from "../models/types";
+import { taskDataDir } from "../services/tasks";
+import { formatSpec, installSpecsFor } from "../services/install";
+import {
+  checkLicenses,
+  licenseLabel,
+  loadLicensePolicy,
+} from "../services/license";
+import {
+  readLatestIndex,
+  snapshotDates,
+  snapshotDir,
+} from "../services/snapshots";
 
-const DATA_DIR = join(import.meta.dir, "../../data");
 const SANDBOX_DIR = join(import.meta.dir, "../../sandbox");
 
+// Package ids and versions safe to pass straight to an installer
+const SAFE_PACKAGE_ID = /^[\w@\-\/\.]+$/;
+const SAFE_VERSION = /^[\w.\-+~^<>=!*]+$/;
+
 interface BuildOptions {
   tool: string;
+  task?: string;
+  date?: string; // Research snapshot to build from (default: newest)
 }
 
 export async function buildCommand(options: BuildOptions): Promise<void> {
   const spinner = ora(`Looking for tool: ${options.tool}...`).start();
 
   try {
-    const toolsDir = join(DATA_DIR, "tools");
-
-    if (!existsSync(toolsDir)) {
-      spinner.fail("No researched tools found");
-      console.log(chalk.yellow("  Run 'bun run research' first"));
-      return;
-    }
-
-    // Find the tool
-    const files = await readdir(toolsDir);
-    const toolFile = files.find(
-      (f) =>
-        f.endsWith(".json") &&
-        (f.replace(".json", "") === options.tool ||
-          f.toLowerCase().includes(options.tool.toLowerCase())),
-    );
-
-    if (!toolFile) {
-      spinner.fail(`Tool '${options.tool}' not found`);
-      console.log(chalk.yellow("\n  Available tools:"));
-      files
-        .filter((f) => f.endsWith(".json"))
-        .forEach((f) =>
-          console.log(chalk.gray(`    - ${f.replace(".json", "")}`)),
+    const dataDir = await taskDataDir(options.task);
+
+    // Newest snapshot per tool, or every tool researched on --date
+    const available = options.date
+      ? await snapshotTools(dataDir, options.date)
+      : await readLatestIndex(dataDir);
+    const wanted = options.tool.toLowerCase();
+    const ids = Object.keys(available);
+    const id =
+      ids.find((i) => i === wanted) || ids.find((i) => i.includes(wanted));
+
+    if (!id) {
+      spinner.fail(
+        `Tool '${options.tool}' not found${options.date ? ` in the ${options.date} snapshot` : ""}`,
+      );
+      if (ids.length > 0) {
+        console.log(chalk.yellow("\n  Available tools:"));
+        ids.forEach((i) =>
+          console.log(chalk.gray(`    - ${i} (${available[i]})`)),
         );
+      }
+
+      // The tool may have been researched on other dates
+      const latest = options.date ? await readLatestIndex(dataDir) : {};
+      const other = Object.keys(latest).find((i) => i.includes(wanted));
+      if (other) {
+        const dates = await snapshotDates(dataDir, other);
+        console.log(chalk.gray(`\n  ${other} snapshots: ${dates.join(", ")}`));
+      } else if (ids.length === 0) {
+        console.log(chalk.yellow("  Run 'bun run research' first"));
+      }
       return;
     }
 
+    const date = available[id] as string;
     const research: ToolResearch = JSON.parse(
-      await readFile(join(toolsDir, toolFile), "utf-8"),
+      await readFile(join(snapshotDir(dataDir, date), `${id}.json`), "utf-8"),
     );
 
-    spinner.succeed(`Found: ${research.tool.name}`);
+    spinner.succeed(`Found: ${research.tool.name} (research from ${date})`);
     console.log(chalk.gray(`  ${research.tool.description.slice(0, 80)}...`));
 
     // Create sandbox directory for this tool
@@ -61,61 +85,81 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
 
     console.log(chalk.cyan(`\n📦 Building in sandbox: ${toolSandbox}\n`));
 
-    // Determine install method
-    if (research.tool.installCommand) {
-      const cmd = research.tool.installCommand;
-
-      // Security: Validate install command against safe patterns
-      const safePatterns = [
-        /^npm\s+i(nstall)?\s+(-g\s+)?[\w@\-\/\.]+$/i,
-        /^bun\s+(add|install)\s+(-g\s+)?[\w@\-\/\.]+$/i,
-        /^yarn\s+add\s+(-g\s+)?[\w@\-\/\.]+$/i,
-        /^pip\s+install\s+[\w\-\.]+$/i,
-        /^docker\s+pull\s+[\w\-\.\/\:]+$/i,
-        /^git\s+clone\s+https?:\/\/[\w\-\.\/]+$/i,
-      ];
-
-      const isSafeCommand = safePatterns.some((pattern) => pattern.test(cmd));
-
-      if (!isSafeCommand) {
-        console.log(
-          chalk.yellow(`\n⚠️  Install command requires confirmation:`),
-        );
-        console.log(chalk.white(`    ${cmd}`));
+    // License policy, checked before anything is installed
+    const license = checkLicenses(research, await loadLicensePolicy());
+    if (license.verdict === "deny") {
+      console.log(chalk.red.bold(`⛔ License denied by policy:`));
+    } else if (license.verdict === "review") {
+      console.log(chalk.yellow(`⚠️  License needs review:`));
+    }
+    for (const finding of license.findings) {
+      const color = finding.verdict === "deny" ? chalk.red : chalk.yellow;
+      console.log(
+        color(
+          finding.source === "project"
+            ? `    ${research.tool.name}: ${finding.license}`
+            : `    ${licenseLabel(finding.license)}: ${finding.packages.join(", ")}`,
+        ),
+      );
+    }
+    if (license.findings.length > 0) console.log();
+
+    // Risks research found in what's about to be installed
+    const risks = research.security?.findings || [];
+    if (risks.length > 0) {
+      console.log(chalk.yellow(`⚠️  Supply-chain risks:`));
+      for (const finding of risks) {
+        const color = finding.severity === "high" ? chalk.red : chalk.yellow;
         console.log(
-          chalk.gray(`\n  This command doesn't match safe patterns.`),
+          color(
+            `    [${finding.severity}] ${finding.packageName}: ${finding.message}`,
+          ),
         );
-        console.log(chalk.gray(`  Run manually in: ${toolSandbox}`));
-      } else {
-        const installSpinner = ora("Installing...").start();
+      }
+      console.log();
+    }
 
-        try {
-          // Parse safe command into arguments (avoid shell interpretation)
-          const args = cmd.split(/\s+/);
-          const executable = args[0];
-          const execArgs = args.slice(1);
+    // Determine install method
+    const specs = installSpecsFor(research.tool);
+    const runnable = specs.find((spec) => installArgv(spec));
+    const argv = runnable && installArgv(runnable);
 
-          const proc = Bun.spawn([executable, ...execArgs], {
-            cwd: toolSandbox,
-            stdout: "pipe",
-            stderr: "pipe",
-          });
+    if (research.tool.installCommand && !argv) {
+      const cmd = research.tool.installCommand;
+      console.log(chalk.yellow(`\n⚠️  Install command requires confirmation:`));
+      console.log(chalk.white(`    ${cmd}`));
+      console.log(chalk.gray(`\n  This command doesn't match safe patterns.`));
+      console.log(chalk.gray(`  Run manually in: ${toolSandbox}`));
+    } else if (argv) {
+      // Alternatives (e.g. "npm i x or pip install x") are listed, not run
+      for (const spec of specs.filter((s) => s !== runnable)) {
+        console.log(chalk.gray(`  Also available: ${spec.raw}`));
+      }
 
-          const exitCode = await proc.exited;
+      const installSpinner = ora("Installing...").start();
 
-          if (exitCode === 0) {
-            installSpinner.succeed("Installed successfully");
-          } else {
-            const stderr = await new Response(proc.stderr).text();
-            installSpinner.fail(`Install failed (exit code ${exitCode})`);
-            console.log(chalk.red(stderr));
-          }
-        } catch (error) {
-          installSpinner.fail("Install failed");
-          console.log(
-            chalk.red(error instanceof Error ? error.message : String(error)),
-          );
+      try {
+        // Rebuilt from the parsed spec, never the raw text (no shell)
+        const proc = Bun.spawn(argv, {
+          cwd: toolSandbox,
+          stdout: "pipe",
+          stderr: "pipe",
+        });
+
+        const exitCode = await proc.exited;
+
+        if (exitCode === 0) {
+          installSpinner.succeed("Installed successfully");
+        } else {
+          const stderr = await new Response(proc.stderr).text();
+          installSpinner.fail(`Install failed (exit code ${exitCode})`);
+          console.log(chalk.red(stderr));
         }
+      } catch (error) {
+        installSpinner.fail("Install failed");
+        console.log(
+          chalk.red(error instanceof Error ? error.message : String(error)),
+        );
       }
     } else if (research.github) {
       // Clone from GitHub
@@ -174,10 +218,11 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
 - **Name:** ${research.tool.name}
 - **Category:** ${research.tool.category}
 - **Source:** ${research.tool.source || "Unknown"}
+- **Research snapshot:** ${date}
 
 ## Installation
 - **Command:** ${research.tool.installCommand || "N/A"}
-- **GitHub:** ${research.github?.repoUrl || "N/A"}
+${specs.map((spec) => `- **${spec.manager}:** ${formatSpec(spec)}${spec.global ? " (global)" : ""}\n`).join("")}- **GitHub:** ${research.github?.repoUrl || "N/A"}
 - **Sandbox:** ${toolSandbox}
 
 ## Build Status
@@ -206,3 +251,63 @@ export async function buildCommand(options: BuildOptions): Promise<void> {
     );
   }
 }
+
+/**
+ * Installer arguments for a spec that is safe to run without confirmation
+ * @returns undefined for managers and ids that need a manual run
+ */
+function installArgv(spec: InstallSpec): string[] | undefined {
+  if (spec.version && !SAFE_VERSION.test(spec.version)) return undefined;
+
+  const global = spec.global ? ["-g"] : [];
+  const target = formatSpec(spec);
+
+  switch (spec.manager) {
+    case "npm":
+      if (!SAFE_PACKAGE_ID.test(spec.packageId)) return undefined;
+      return ["npm", "install", ...global, target];
+    case "bun":
+    case "pnpm":
+      if (!SAFE_PACKAGE_ID.test(spec.packageId)) return undefined;
+      return [spec.manager, "add", ...global, target];
+    case "yarn":
+      if (!SAFE_PACKAGE_ID.test(spec.packageId)) return undefined;
+      return spec.global
+        ? ["yarn", "global", "add", target]
+        : ["yarn", "add", target];
+    case "pip":
+      if (!/^[\w\-\.]+$/.test(spec.packageId)) return undefined;
+      return ["pip", "install", target];
+    case "docker":
+      if (!/^[\w\-\.\/\:]+$/.test(spec.packageId)) return undefined;
+      return ["docker", "pull", target];
+    case "git":
+      if (!/^https?:\/\/[\w\-\.\/]+$/.test(spec.packageId)) return undefined;
+      return [
+        "git",
+        "clone",
+        ...(spec.version ? ["--branch", spec.version] : []),
+        spec.packageId,
+      ];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Tools researched on a date, each mapped to that date
+ */
+async function snapshotTools(
+  dataDir: string,
+  date: string,
+): Promise<Record<string, string>> {
+  const dir = snapshotDir(dataDir, date);
+  if (!existsSync(dir)) return {};
+
+  const files = await readdir(dir);
+  return Object.fromEntries(
+    files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => [f.replace(/\.json$/, ""), date]),
+  );
+}
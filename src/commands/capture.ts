@@ -3,39 +3,85 @@
  *
  * Supports:
  * - --clipboard: Manual paste from clipboard
+ * - --input <path>: Local file, directory, saved HTML page or RSS/Atom feed
+ * - --stdin: Piped stdin without the interactive prompt
  * - --login: Interactive browser login (saves cookies)
+ * - --from/--to: Backfill past task runs from the browser
  * - default: Automated headless browser capture
  */
 
 import chalk from "chalk";
 import ora from "ora";
-import { mkdir, writeFile, readFile } from "fs/promises";
+import { mkdir, writeFile, readFile, stat } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
-import type { DailyUpdate } from "../models/types";
-
-const DATA_DIR = join(import.meta.dir, "../../data");
-const COOKIES_PATH = join(DATA_DIR, ".grok-cookies.json");
-
-// Browser executable path - configurable via env var
-const BROWSER_PATH =
-  process.env.BROWSER_PATH ||
-  "/Applications/Brave Browser.app/Contents/MacOS/Brave Browser";
+import type { Page } from "puppeteer";
+import type {
+  CaptureBundle,
+  CaptureInfo,
+  DailyUpdate,
+  TrackedTask,
+} from "../models/types";
+import {
+  inputSource,
+  readStdin,
+  stdinSource,
+  type CaptureSource,
+  type CapturedContent,
+} from "../services/sources";
+import {
+  GROK_TASKS_URL,
+  extractTaskContent,
+  findTaskUrl,
+  isLoginUrl,
+  launchBrowser,
+  listTaskRuns,
+  loadCookies,
+  saveCookies,
+  saveDebugBundle,
+} from "../services/grok";
+import { loadTrackedTasks, resolveTask, taskDataDir } from "../services/tasks";
+import { daysUntil, hasCookieKey, requireCookieKey } from "../services/cookies";
 
 // Date format validation
 const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
+// Longest date range a single backfill will walk
+const MAX_BACKFILL_DAYS = 366;
+
 interface CaptureOptions {
   clipboard?: boolean;
   login?: boolean;
+  input?: string;
+  stdin?: boolean;
   date: string;
+  task?: string;
+  allTasks?: boolean;
+  from?: string;
+  to?: string;
+  browser?: string;
+  headful?: boolean;
 }
 
 export async function captureCommand(options: CaptureOptions): Promise<void> {
+  // Run once per tracked task
+  if (options.allTasks) {
+    for (const task of await loadTrackedTasks()) {
+      console.log(chalk.cyan(`\n📌 ${task.name}\n`));
+      await captureCommand({ ...options, allTasks: false, task: task.slug });
+    }
+    return;
+  }
+
+  if (options.from || options.to) {
+    await backfillCapture(options);
+    return;
+  }
+
   const spinner = ora("Capturing daily update...").start();
 
   try {
-    const { clipboard, login, date } = options;
+    const { date } = options;
 
     // Validate date format to prevent path traversal
     if (!DATE_PATTERN.test(date)) {
@@ -46,37 +92,30 @@ export async function captureCommand(options: CaptureOptions): Promise<void> {
       return;
     }
 
-    let content: string;
+    const task = await resolveTask(options.task);
+    const dataDir = await taskDataDir(options.task);
 
-    if (login) {
-      // Interactive login mode - opens visible browser
-      spinner.text = "Opening browser for login...";
-      content = await captureFromBrowser(spinner, true);
-    } else if (clipboard) {
-      // Read from clipboard (user pasted content)
-      spinner.text = "Reading from clipboard...";
-      content = await readFromClipboard();
-    } else {
-      // Browser automation with Puppeteer (headless)
-      spinner.text = "Launching browser...";
-      content = await captureFromBrowser(spinner, false);
-    }
+    const source = await selectSource(options, task, dataDir, spinner);
+    const captured = await source.read();
+    const { content } = captured;
 
     if (!content || content.trim().length === 0) {
       spinner.fail("No content captured");
       return;
     }
 
-    // Ensure data directory exists
-    const updatesDir = join(DATA_DIR, "updates");
-    await mkdir(updatesDir, { recursive: true });
-
-    // Save raw content
-    const filename = `${date}.md`;
-    const filepath = join(updatesDir, filename);
-    await writeFile(filepath, content);
+    const filepath = await saveCapture(dataDir, date, captured, {
+      kind: source.kind,
+      location: source.location,
+      capturedAt: new Date().toISOString(),
+    });
 
-    spinner.succeed(`Captured update for ${date}`);
+    spinner.succeed(
+      options.task
+        ? `Captured ${task.name} update for ${date}`
+        : `Captured update for ${date}`,
+    );
+    console.log(chalk.gray(`  Source: ${describeSource(source)}`));
     console.log(chalk.gray(`  Saved to: ${filepath}`));
     console.log(chalk.gray(`  Size: ${content.length} characters`));
 
@@ -94,25 +133,432 @@ export async function captureCommand(options: CaptureOptions): Promise<void> {
   }
 }
 
+/**
+ * Open each past run of a tracked task and save it under its own date
+ */
+async function backfillCapture(options: CaptureOptions): Promise<void> {
+  const spinner = ora("Preparing backfill...").start();
+
+  try {
+    const from = options.from || options.to || "";
+    const to = options.to || options.from || "";
+
+    // Validate date format to prevent path traversal
+    for (const date of [from, to]) {
+      if (!DATE_PATTERN.test(date)) {
+        spinner.fail(`Invalid date format: ${date}`);
+        console.log(
+          chalk.yellow("  Expected format: YYYY-MM-DD (e.g., 2026-01-07)"),
+        );
+        return;
+      }
+    }
+
+    const dates = dateRange(from, to);
+    if (dates.length === 0) {
+      spinner.fail(`--from ${from} is after --to ${to}`);
+      return;
+    }
+    if (dates.length > MAX_BACKFILL_DAYS) {
+      spinner.fail(
+        `Date range too long: ${dates.length} days (max ${MAX_BACKFILL_DAYS})`,
+      );
+      return;
+    }
+
+    const task = await resolveTask(options.task);
+    const dataDir = await taskDataDir(options.task);
+
+    warnUnsavedCookies();
+    spinner.text = "Launching browser...";
+    const browser = await launchBrowser(!options.headful, options.browser);
+    const captured: string[] = [];
+    const missing: string[] = [];
+
+    try {
+      const page = await browser.newPage();
+      await page.setViewport({ width: 1280, height: 800 });
+
+      try {
+        if (await loadCookies(page)) spinner.text = "Loaded saved cookies...";
+      } catch {
+        console.log(
+          chalk.yellow("  Could not load cookies, may need to login"),
+        );
+      }
+
+      spinner.text = "Navigating to Grok Tasks...";
+      await page.goto(GROK_TASKS_URL, {
+        waitUntil: "networkidle2",
+        timeout: 30000,
+      });
+
+      if (isLoginUrl(page.url())) {
+        spinner.warn("Login/verification required for Grok Tasks");
+        console.log(chalk.gray("  Run: bun run capture --login"));
+        return;
+      }
+
+      spinner.text = `Looking for task: ${task.name}...`;
+      const taskUrl = await findTaskUrl(page, task);
+      if (!taskUrl) {
+        spinner.fail(`Task '${task.name}' not found on Grok Tasks`);
+        console.log(
+          chalk.yellow(`  No link containing "${task.match}" on the page`),
+        );
+        return;
+      }
+
+      await page.goto(taskUrl, { waitUntil: "networkidle2", timeout: 30000 });
+      const runs = await listTaskRuns(page);
+      spinner.succeed(`Found ${runs.size} runs for ${task.name}`);
+
+      for (const date of dates) {
+        const runUrl = runs.get(date);
+        if (!runUrl) {
+          missing.push(date);
+          continue;
+        }
+
+        const runSpinner = ora(`Capturing ${date}...`).start();
+
+        try {
+          await page.goto(runUrl, {
+            waitUntil: "networkidle2",
+            timeout: 30000,
+          });
+          const extracted = await extractTaskContent(page);
+          const hasContent = extracted.content.trim().length > 0;
+
+          await saveDebugBundle(page, join(dataDir, "updates", date), date, {
+            status: hasContent ? "captured" : "no-content",
+            requestedUrl: runUrl,
+            matchedSelector: extracted.selector,
+            contentLength: extracted.content.length,
+          });
+
+          if (!hasContent) {
+            runSpinner.fail(`${date} - no content captured`);
+            missing.push(date);
+            continue;
+          }
+
+          await saveCapture(dataDir, date, extracted, {
+            kind: "browser",
+            location: runUrl,
+            capturedAt: new Date().toISOString(),
+          });
+          captured.push(date);
+          runSpinner.succeed(
+            `${date} - ${extracted.content.length} characters`,
+          );
+        } catch (error) {
+          missing.push(date);
+          runSpinner.fail(`${date} - failed`);
+          console.log(
+            chalk.red(
+              `    ${error instanceof Error ? error.message : String(error)}`,
+            ),
+          );
+        }
+      }
+
+      await saveCookies(page);
+    } finally {
+      await browser.close();
+    }
+
+    console.log(
+      chalk.green(
+        `\n✅ Backfilled ${captured.length} of ${dates.length} days for ${task.name}`,
+      ),
+    );
+    if (missing.length > 0) {
+      console.log(chalk.yellow(`  Not captured: ${missing.join(", ")}`));
+    }
+  } catch (error) {
+    spinner.fail("Failed to backfill updates");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+/**
+ * Save captured Markdown, raw HTML and source metadata for a date
+ * @returns path of the saved Markdown file
+ */
+async function saveCapture(
+  dataDir: string,
+  date: string,
+  captured: CapturedContent,
+  info: CaptureInfo,
+): Promise<string> {
+  // Ensure data directory exists
+  const updatesDir = join(dataDir, "updates");
+  await mkdir(updatesDir, { recursive: true });
+
+  // Save raw content
+  const filepath = join(updatesDir, `${date}.md`);
+  await writeFile(filepath, captured.content);
+
+  // Keep the raw HTML so the Markdown conversion can be re-run offline
+  if (captured.html) {
+    await writeFile(join(updatesDir, `${date}.html`), captured.html);
+  }
+
+  // Record where the content came from (picked up by parse)
+  await writeFile(
+    join(updatesDir, `${date}.source.json`),
+    JSON.stringify(info, null, 2),
+  );
+
+  return filepath;
+}
+
+/**
+ * Every date from `from` to `to` inclusive (empty if from > to)
+ */
+function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${to}T00:00:00Z`).getTime();
+
+  for (
+    let day = new Date(`${from}T00:00:00Z`);
+    day.getTime() <= end;
+    day.setUTCDate(day.getUTCDate() + 1)
+  ) {
+    dates.push(day.toISOString().split("T")[0] as string);
+  }
+
+  return dates;
+}
+
+interface InspectOptions {
+  date: string;
+  task?: string;
+}
+
+/**
+ * Show a summary of the debug bundle saved by a browser capture
+ */
+export async function captureInspectCommand(
+  options: InspectOptions,
+): Promise<void> {
+  const spinner = ora("Loading capture bundle...").start();
+
+  try {
+    const { date } = options;
+
+    if (!DATE_PATTERN.test(date)) {
+      spinner.fail(`Invalid date format: ${date}`);
+      console.log(
+        chalk.yellow("  Expected format: YYYY-MM-DD (e.g., 2026-01-07)"),
+      );
+      return;
+    }
+
+    const dataDir = await taskDataDir(options.task);
+    const bundleDir = join(dataDir, "updates", date);
+    const bundlePath = join(bundleDir, "bundle.json");
+
+    if (!existsSync(bundlePath)) {
+      spinner.fail(`No capture bundle found for ${date}`);
+      console.log(chalk.yellow("  Bundles are only saved by browser captures"));
+      return;
+    }
+
+    const bundle: CaptureBundle = JSON.parse(
+      await readFile(bundlePath, "utf-8"),
+    );
+
+    const statusColor =
+      bundle.status === "captured" ? chalk.green : chalk.yellow;
+    spinner.succeed(`Capture bundle for ${date}`);
+    console.log(chalk.gray(`  Status: `) + statusColor(bundle.status));
+    console.log(
+      chalk.gray(`  Captured: ${new Date(bundle.capturedAt).toLocaleString()}`),
+    );
+    console.log(chalk.gray(`  Requested URL: ${bundle.requestedUrl}`));
+    const finalUrlLine = `  Final URL: ${bundle.finalUrl}`;
+    console.log(
+      bundle.finalUrl === bundle.requestedUrl
+        ? chalk.gray(finalUrlLine)
+        : chalk.yellow(finalUrlLine + " (redirected)"),
+    );
+    console.log(chalk.gray(`  Page title: ${bundle.pageTitle || "(none)"}`));
+
+    if (bundle.matchedSelector) {
+      const position = bundle.selectors.indexOf(bundle.matchedSelector) + 1;
+      console.log(
+        chalk.gray(
+          `  Matched selector: ${bundle.matchedSelector} (${position} of ${bundle.selectors.length})`,
+        ),
+      );
+    } else if (bundle.status === "captured" || bundle.status === "no-content") {
+      console.log(
+        chalk.yellow("  Matched selector: none - fell back to whole page"),
+      );
+    }
+
+    if (bundle.contentLength !== undefined) {
+      console.log(chalk.gray(`  Content: ${bundle.contentLength} characters`));
+    }
+    if (bundle.error) {
+      console.log(chalk.red(`  Error: ${bundle.error}`));
+    }
+
+    // Files
+    console.log(chalk.cyan("\n  Files:"));
+    for (const file of [bundle.files.html, bundle.files.screenshot]) {
+      if (!file) continue;
+      const path = join(bundleDir, file);
+      const size = existsSync(path) ? (await stat(path)).size : undefined;
+      console.log(
+        chalk.gray(
+          `    ${path}${size !== undefined ? ` (${formatBytes(size)})` : " (missing)"}`,
+        ),
+      );
+    }
+
+    // Cookies
+    const now = Date.now();
+    const persistent = bundle.cookies.filter((c) => c.expires);
+    const expired = persistent.filter(
+      (c) => new Date(c.expires as string).getTime() < now,
+    );
+    const earliest = persistent
+      .filter((c) => new Date(c.expires as string).getTime() >= now)
+      .sort((a, b) =>
+        (a.expires as string).localeCompare(b.expires as string),
+      )[0];
+
+    console.log(chalk.cyan("\n  Cookies:"));
+    console.log(
+      chalk.gray(
+        `    ${bundle.cookies.length} total, ${bundle.cookies.length - persistent.length} session, ${expired.length} expired`,
+      ),
+    );
+    if (earliest) {
+      console.log(
+        chalk.gray(
+          `    Earliest expiry: ${earliest.name} (${earliest.domain}) in ${daysUntil(earliest.expires as string)} days`,
+        ),
+      );
+    }
+  } catch (error) {
+    spinner.fail("Failed to inspect capture");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Pick the capture source from command options
+ * Precedence: --login, --input, --stdin, --clipboard, headless browser
+ */
+async function selectSource(
+  options: CaptureOptions,
+  task: TrackedTask,
+  dataDir: string,
+  spinner: ReturnType<typeof ora>,
+): Promise<CaptureSource> {
+  const bundleDir = join(dataDir, "updates", options.date);
+
+  if (options.login) {
+    // Interactive login mode - opens visible browser
+    spinner.text = "Opening browser for login...";
+    return browserSource(spinner, true, task, options, bundleDir);
+  }
+
+  if (options.input) {
+    spinner.text = `Reading from ${options.input}...`;
+    return inputSource(options.input, options.date);
+  }
+
+  if (options.stdin) {
+    spinner.text = "Reading from stdin...";
+    return stdinSource();
+  }
+
+  if (options.clipboard) {
+    // Read from clipboard (user pasted content)
+    spinner.text = "Reading from clipboard...";
+    return {
+      kind: "clipboard",
+      read: async () => ({ content: await readFromClipboard() }),
+    };
+  }
+
+  // Browser automation with Puppeteer (headless)
+  spinner.text = "Launching browser...";
+  return browserSource(spinner, false, task, options, bundleDir);
+}
+
+function browserSource(
+  spinner: ReturnType<typeof ora>,
+  interactive: boolean,
+  task: TrackedTask,
+  options: CaptureOptions,
+  bundleDir: string,
+): CaptureSource {
+  return {
+    kind: "browser",
+    location: GROK_TASKS_URL,
+    read: () =>
+      captureFromBrowser(spinner, interactive, task, options, bundleDir),
+  };
+}
+
+/**
+ * Headless captures still run without DTU_COOKIE_KEY, on the saved cookies
+ */
+function warnUnsavedCookies(): void {
+  if (hasCookieKey()) return;
+  console.log(
+    chalk.yellow(
+      "  DTU_COOKIE_KEY is not set - refreshed cookies won't be saved",
+    ),
+  );
+}
+
+function describeSource(source: CaptureSource): string {
+  return source.location ? `${source.kind} (${source.location})` : source.kind;
+}
+
 /**
  * Capture from Grok Tasks using Puppeteer browser automation
  * @param spinner - ora spinner instance
  * @param interactive - if true, opens visible browser for login
+ * @param task - tracked task to open from the tasks list
+ * @param options - capture date, --browser and --headful
+ * @param bundleDir - where to save the debug bundle
  */
 async function captureFromBrowser(
   spinner: ReturnType<typeof ora>,
   interactive: boolean = false,
-): Promise<string> {
-  const puppeteer = await import("puppeteer");
-
-  // Launch browser (headless unless interactive login mode)
-  // Browser path configurable via BROWSER_PATH env var
-  const browser = await puppeteer.default.launch({
-    headless: !interactive,
-    executablePath: BROWSER_PATH,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    defaultViewport: interactive ? null : { width: 1280, height: 800 },
-  });
+  task: TrackedTask,
+  options: CaptureOptions,
+  bundleDir: string,
+): Promise<CapturedContent> {
+  const { date } = options;
+
+  // A login is only useful if its cookies can be saved
+  if (interactive) requireCookieKey();
+  else warnUnsavedCookies();
+
+  // Launch browser (headless unless interactive login or --headful)
+  const browser = await launchBrowser(
+    !interactive && !options.headful,
+    options.browser,
+  );
 
   if (interactive) {
     spinner.info("Browser opened - complete any verification and login");
@@ -129,29 +575,26 @@ async function captureFromBrowser(
     );
   }
 
+  let page: Page | undefined;
+  let requestedUrl = GROK_TASKS_URL;
+
   try {
-    const page = await browser.newPage();
+    page = await browser.newPage();
 
     // Set viewport
     await page.setViewport({ width: 1280, height: 800 });
 
     // Load cookies if they exist (for authentication)
-    if (existsSync(COOKIES_PATH)) {
-      spinner.text = "Loading saved cookies...";
-      try {
-        const cookiesJson = await readFile(COOKIES_PATH, "utf-8");
-        const cookies = JSON.parse(cookiesJson);
-        await page.setCookie(...cookies);
-      } catch (e) {
-        console.log(
-          chalk.yellow("  Could not load cookies, may need to login"),
-        );
-      }
+    spinner.text = "Loading saved cookies...";
+    try {
+      await loadCookies(page);
+    } catch (e) {
+      console.log(chalk.yellow("  Could not load cookies, may need to login"));
     }
 
     // Navigate to Grok Tasks
     spinner.text = "Navigating to Grok Tasks...";
-    await page.goto("https://grok.com/tasks", {
+    await page.goto(GROK_TASKS_URL, {
       waitUntil: "networkidle2",
       timeout: 30000,
     });
@@ -198,12 +641,11 @@ async function captureFromBrowser(
       }
     } else {
       // Headless mode - check for login requirement
-      const currentUrl = page.url();
-      if (
-        currentUrl.includes("login") ||
-        currentUrl.includes("auth") ||
-        currentUrl.includes("challenge")
-      ) {
+      if (isLoginUrl(page.url())) {
+        await saveDebugBundle(page, bundleDir, date, {
+          status: "login-required",
+          requestedUrl,
+        });
         spinner.warn("Login/verification required for Grok Tasks");
         console.log(chalk.yellow("\n  To set up automated capture:"));
         console.log(chalk.gray("  1. Run: bun run capture --login"));
@@ -214,63 +656,52 @@ async function captureFromBrowser(
         console.log(chalk.yellow("\n  For now, use clipboard mode:"));
         console.log(chalk.gray("  bun run capture --clipboard"));
         await browser.close();
-        return "";
+        return { content: "" };
       }
     }
 
-    // Try to find and click on the daily Claude update task
-    spinner.text = "Looking for daily update task...";
+    // Try to find and open the tracked task
+    spinner.text = `Looking for task: ${task.name}...`;
 
     // Wait for task list to appear
     await page.waitForSelector('[role="main"], main, .task-list, article', {
       timeout: 10000,
     });
 
-    // Look for the Claude update task and extract content
-    const content = await page.evaluate(() => {
-      // Try multiple selectors to find the update content
-      const selectors = [
-        // Task content area
-        '[data-testid="task-content"]',
-        ".task-content",
-        "article",
-        '[role="article"]',
-        // Main content area
-        "main",
-        '[role="main"]',
-        // Fallback to body
-        "body",
-      ];
-
-      for (const selector of selectors) {
-        const element = document.querySelector(selector);
-        if (element) {
-          // Get text content, clean it up
-          const text = element.innerText || element.textContent || "";
-          // Only return if it looks like a Claude update
-          if (
-            text.includes("Claude") ||
-            text.includes("Tool") ||
-            text.includes("Daily")
-          ) {
-            return text.trim();
-          }
-        }
+    if (!interactive) {
+      const taskUrl = await findTaskUrl(page, task);
+      if (taskUrl && taskUrl !== page.url()) {
+        requestedUrl = taskUrl;
+        await page.goto(taskUrl, { waitUntil: "networkidle2", timeout: 30000 });
       }
+    }
 
-      // Fallback: get all visible text
-      return document.body.innerText || "";
+    // Look for the update content and convert it to Markdown
+    const { content, html, selector } = await extractTaskContent(page);
+
+    spinner.text = "Saving debug bundle...";
+    await saveDebugBundle(page, bundleDir, date, {
+      status: content.trim().length > 0 ? "captured" : "no-content",
+      requestedUrl,
+      matchedSelector: selector,
+      contentLength: content.length,
     });
 
     // Save cookies for next time
     spinner.text = "Saving cookies...";
-    const cookies = await page.cookies();
-    await mkdir(DATA_DIR, { recursive: true });
-    await writeFile(COOKIES_PATH, JSON.stringify(cookies, null, 2));
+    await saveCookies(page);
 
     await browser.close();
-    return content;
+    return { content, html };
   } catch (error) {
+    if (page) {
+      // Best effort - the bundle is most useful when the scrape breaks
+      await saveDebugBundle(page, bundleDir, date, {
+        status: "error",
+        requestedUrl,
+        error: error instanceof Error ? error.message : String(error),
+      }).catch(() => undefined);
+    }
     await browser.close();
     throw error;
   }
@@ -283,22 +714,8 @@ async function readFromClipboard(): Promise<string> {
   console.log(chalk.cyan("\n📋 Paste your Grok Tasks content below."));
   console.log(chalk.gray("   Press Ctrl+D (or Cmd+D on Mac) when done:\n"));
 
-  const chunks: string[] = [];
-
   // Read from stdin until EOF
-  const reader = Bun.stdin.stream().getReader();
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(new TextDecoder().decode(value));
-    }
-  } finally {
-    reader.releaseLock();
-  }
-
-  return chunks.join("");
+  return readStdin();
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * Classify command - Re-run the category rules on parsed tools
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import { readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type { DailyUpdate } from "../models/types";
+import { taskDataDir } from "../services/tasks";
+import {
+  RULES_PATH,
+  classifyTool,
+  loadClassifierConfig,
+} from "../services/classifier";
+
+interface ClassifyOptions {
+  date: string;
+  task?: string;
+  explain?: string; // Tool to show fired rules for (nothing is saved)
+}
+
+export async function classifyCommand(options: ClassifyOptions): Promise<void> {
+  const spinner = ora("Loading parsed update...").start();
+
+  try {
+    const { date } = options;
+    const dataDir = await taskDataDir(options.task);
+    const parsedPath = join(dataDir, "updates", `${date}.json`);
+
+    if (!existsSync(parsedPath)) {
+      spinner.fail(`No parsed update found for ${date}`);
+      console.log(chalk.yellow(`  Run 'bun run parse' first`));
+      return;
+    }
+
+    const dailyUpdate: DailyUpdate = JSON.parse(
+      await readFile(parsedPath, "utf-8"),
+    );
+    const config = await loadClassifierConfig();
+
+    if (options.explain) {
+      const wanted = options.explain.toLowerCase();
+      const tool = dailyUpdate.tools.find(
+        (t) =>
+          t.slug === wanted ||
+          t.id === wanted ||
+          t.name.toLowerCase().includes(wanted),
+      );
+      if (!tool) {
+        spinner.fail(`Tool '${options.explain}' not found`);
+        return;
+      }
+
+      const result = classifyTool(tool, config);
+      spinner.succeed(`${tool.name}: ${result.category}`);
+      console.log(chalk.gray(`  Rules: ${RULES_PATH}`));
+
+      if (result.fired.length === 0) {
+        console.log(chalk.yellow("\n  No rules fired - category is 'other'"));
+        return;
+      }
+
+      console.log(chalk.cyan("\n  Fired rules:"));
+      for (const { rule, matched } of result.fired) {
+        console.log(
+          chalk.white(
+            `    ${rule.id} → ${rule.category} (+${rule.weight ?? 1})`,
+          ),
+        );
+        for (const reason of matched) {
+          console.log(chalk.gray(`      ${reason}`));
+        }
+      }
+
+      console.log(chalk.cyan("\n  Scores:"));
+      for (const [category, score] of Object.entries(result.scores).sort(
+        (a, b) => b[1] - a[1],
+      )) {
+        const role =
+          category === result.category
+            ? " (primary)"
+            : (result.tags as string[]).includes(category)
+              ? " (tag)"
+              : "";
+        console.log(chalk.gray(`    ${category}: ${score}${role}`));
+      }
+      console.log(
+        chalk.gray(`\n  Tags need a score of ${config.tagThreshold} or more`),
+      );
+      return;
+    }
+
+    // Re-classify every tool and save
+    dailyUpdate.tools = dailyUpdate.tools.map((tool) => {
+      const { category, tags } = classifyTool(tool, config);
+      return { ...tool, category, tags: tags.length > 0 ? tags : undefined };
+    });
+    await writeFile(parsedPath, JSON.stringify(dailyUpdate, null, 2));
+
+    spinner.succeed(`Classified ${dailyUpdate.tools.length} tools`);
+    for (const tool of dailyUpdate.tools) {
+      const tags = tool.tags ? chalk.gray(` [${tool.tags.join(", ")}]`) : "";
+      console.log(chalk.white(`  ${tool.name}: ${tool.category}`) + tags);
+    }
+  } catch (error) {
+    spinner.fail("Failed to classify tools");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
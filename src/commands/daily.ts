@@ -8,9 +8,14 @@ import { parseCommand } from "./parse";
 import { researchCommand } from "./research";
 import { scoreCommand } from "./score";
 import { reportCommand } from "./report";
+import { cookieStorageWarning, sessionWarning } from "./auth";
+import type { CassetteOptions } from "../services/cassette";
 
-interface DailyOptions {
+interface DailyOptions extends CassetteOptions {
   clipboard?: boolean;
+  input?: string;
+  task?: string;
+  browser?: string;
 }
 
 export async function dailyCommand(options: DailyOptions): Promise<void> {
@@ -18,39 +23,81 @@ export async function dailyCommand(options: DailyOptions): Promise<void> {
 
   console.log(chalk.cyan.bold("\n🔄 Running Daily Pipeline\n"));
   console.log(chalk.gray(`  Date: ${date}`));
-  console.log(
-    chalk.gray(`  Mode: ${options.clipboard ? "Clipboard" : "Browser"}\n`),
-  );
+  const { task } = options;
+  if (task) console.log(chalk.gray(`  Task: ${task}`));
+  const mode = options.input
+    ? `Input (${options.input})`
+    : options.clipboard
+      ? "Clipboard"
+      : "Browser";
+  console.log(chalk.gray(`  Mode: ${mode}\n`));
+
+  // Replays need the update itself to come from a file, not Grok
+  const offline = options.offline || process.env.DTU_OFFLINE === "1";
+  if (offline && !options.input) {
+    console.log(chalk.red("  Offline runs need --input <path>\n"));
+    process.exitCode = 1;
+    return;
+  }
+
+  // Nightly runs capture headlessly - flag a session that is about to lapse
+  // and cookies still stored as plain text
+  if (!options.clipboard && !options.input) {
+    try {
+      const warnings = [await sessionWarning(), await cookieStorageWarning()];
+      for (const warning of warnings.filter(Boolean)) {
+        console.log(chalk.yellow(`  ⚠️  ${warning}\n`));
+      }
+    } catch (error) {
+      console.log(
+        chalk.yellow(
+          `  ⚠️  Could not read saved cookies: ${error instanceof Error ? error.message : String(error)}\n`,
+        ),
+      );
+    }
+  }
 
   console.log(chalk.cyan("─".repeat(50)));
 
   // Step 1: Capture
   console.log(chalk.yellow("\n📥 Step 1: Capture\n"));
-  await captureCommand({ clipboard: options.clipboard, date });
+  await captureCommand({
+    clipboard: options.clipboard,
+    input: options.input,
+    date,
+    task,
+    browser: options.browser,
+  });
 
   console.log(chalk.cyan("\n" + "─".repeat(50)));
 
   // Step 2: Parse
   console.log(chalk.yellow("\n📝 Step 2: Parse\n"));
-  await parseCommand({ date });
+  await parseCommand({ date, task });
 
   console.log(chalk.cyan("\n" + "─".repeat(50)));
 
   // Step 3: Research
   console.log(chalk.yellow("\n🔍 Step 3: Research\n"));
-  await researchCommand({ date });
+  await researchCommand({
+    date,
+    task,
+    offline: options.offline,
+    record: options.record,
+    cassette: options.cassette,
+  });
 
   console.log(chalk.cyan("\n" + "─".repeat(50)));
 
   // Step 4: Score
   console.log(chalk.yellow("\n📊 Step 4: Score\n"));
-  await scoreCommand({ date });
+  await scoreCommand({ date, task });
 
   console.log(chalk.cyan("\n" + "─".repeat(50)));
 
   // Step 5: Report
   console.log(chalk.yellow("\n📋 Step 5: Report\n"));
-  await reportCommand({ date });
+  await reportCommand({ date, task });
 
   console.log(chalk.cyan("\n" + "─".repeat(50)));
 
@@ -0,0 +1,67 @@
+/**
+ * Doctor command - Check the browser setup used for captures
+ */
+
+import { existsSync } from "fs";
+import chalk from "chalk";
+import ora from "ora";
+import {
+  browserCandidates,
+  describeBrowser,
+  resolveBrowser,
+} from "../services/browser";
+import { launchBrowser } from "../services/grok";
+
+interface DoctorOptions {
+  browser?: string;
+}
+
+export async function doctorCommand(options: DoctorOptions): Promise<void> {
+  console.log(chalk.cyan.bold("\n🩺 Browser Check\n"));
+  console.log(chalk.gray(`  Platform: ${process.platform} (${process.arch})`));
+  if (process.env.BROWSER_PATH) {
+    console.log(chalk.gray(`  BROWSER_PATH: ${process.env.BROWSER_PATH}`));
+  }
+
+  // Standard install locations
+  console.log(chalk.cyan("\n  Install locations:"));
+  for (const candidate of browserCandidates()) {
+    const found = existsSync(candidate.path);
+    const line = `    ${found ? "✓" : "✗"} ${candidate.name.padEnd(8)} ${candidate.path}`;
+    console.log(found ? chalk.green(line) : chalk.gray(line));
+  }
+
+  let resolved;
+  try {
+    resolved = resolveBrowser(options.browser);
+  } catch (error) {
+    console.log(
+      chalk.red(
+        `\n  ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+    return;
+  }
+  console.log(chalk.cyan(`\n  Using: ${describeBrowser(resolved)}\n`));
+
+  // Launch test
+  const spinner = ora("Launching browser headlessly...").start();
+  try {
+    const browser = await launchBrowser(true, options.browser);
+    try {
+      spinner.succeed(`Browser launched (${await browser.version()})`);
+    } finally {
+      await browser.close();
+    }
+  } catch (error) {
+    spinner.fail("Browser failed to launch");
+    console.log(
+      chalk.red(`  ${error instanceof Error ? error.message : String(error)}`),
+    );
+    console.log(
+      chalk.yellow(
+        "  Install Chromium or Chrome, or pass --browser <path> / set BROWSER_PATH",
+      ),
+    );
+  }
+}
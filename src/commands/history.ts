@@ -0,0 +1,97 @@
+/**
+ * History command - Show a tool's star and download counts over time
+ */
+
+import chalk from "chalk";
+import { existsSync } from "fs";
+import { taskDataDir } from "../services/tasks";
+import { findEntry, loadRegistry } from "../services/registry";
+import {
+  computeVelocity,
+  downloads,
+  formatVelocity,
+  historyPath,
+  loadHistory,
+  sparkline,
+} from "../services/history";
+
+// Research runs listed under the sparklines
+const RECENT_POINTS = 10;
+
+interface HistoryOptions {
+  tool: string;
+  task?: string;
+}
+
+export async function historyCommand(options: HistoryOptions): Promise<void> {
+  try {
+    const dataDir = await taskDataDir(options.task);
+    const registry = await loadRegistry(dataDir);
+    const entry = findEntry(registry, options.tool);
+    const id = entry?.id || options.tool.toLowerCase();
+
+    if (!existsSync(historyPath(dataDir, id))) {
+      console.log(chalk.yellow(`No metrics history for '${options.tool}'`));
+      console.log(
+        chalk.gray("  Each 'bun run research' adds a point to the history"),
+      );
+      return;
+    }
+
+    const history = await loadHistory(dataDir, id);
+    const { points } = history;
+    const first = points[0]?.recordedAt.slice(0, 10);
+    const last = points[points.length - 1]?.recordedAt.slice(0, 10);
+
+    console.log(chalk.cyan.bold(`\n📈 ${entry?.name || id}`));
+    console.log(
+      chalk.gray(`  ${points.length} research runs, ${first} → ${last}\n`),
+    );
+
+    const stars = points.map((p) => p.stars);
+    const weekly = points.map(downloads);
+    if (stars.some((s) => s !== undefined)) {
+      console.log(
+        `  Stars      ${chalk.yellow(sparkline(stars))}  ${range(stars)}`,
+      );
+    }
+    if (weekly.some((d) => d !== undefined)) {
+      console.log(
+        `  Downloads  ${chalk.green(sparkline(weekly))}  ${range(weekly)}`,
+      );
+    }
+
+    const trend = formatVelocity(computeVelocity(history));
+    console.log(
+      chalk.white(`\n  ${trend || "Not enough history for a trend yet"}`),
+    );
+
+    console.log(chalk.gray("\n  Recent runs:"));
+    for (const point of points.slice(-RECENT_POINTS).reverse()) {
+      const counts = [
+        point.stars !== undefined && `⭐ ${point.stars}`,
+        point.forks !== undefined && `🍴 ${point.forks}`,
+        point.openIssues !== undefined && `🐛 ${point.openIssues}`,
+        downloads(point) !== undefined && `📥 ${downloads(point)}/week`,
+      ].filter(Boolean);
+      console.log(
+        chalk.gray(
+          `    ${point.recordedAt.slice(0, 16).replace("T", " ")}  ${counts.join("  ") || "no data"}`,
+        ),
+      );
+    }
+    console.log();
+  } catch (error) {
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+/**
+ * "1200 → 1450" for the first and last known values
+ */
+function range(values: (number | undefined)[]): string {
+  const known = values.filter((v): v is number => v !== undefined);
+  return chalk.gray(`${known[0]} → ${known[known.length - 1]}`);
+}
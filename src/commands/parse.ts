@@ -4,28 +4,57 @@
 
 import chalk from "chalk";
 import ora from "ora";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir, readdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import type {
   Tool,
   DailyUpdate,
   NewsItem,
-  ToolCategory,
+  CaptureInfo,
+  ParseGrammar,
+  ParserInfo,
+  ParseDiagnostic,
+  ToolLink,
 } from "../models/types";
-
-const DATA_DIR = join(import.meta.dir, "../../data");
+import { taskDataDir } from "../services/tasks";
+import { addLink, extractLinks } from "../services/links";
+import { parseInstallCommand } from "../services/install";
+import {
+  loadRegistry,
+  registerTools,
+  saveRegistry,
+  slugify,
+} from "../services/registry";
+import {
+  classifyTool,
+  loadClassifierConfig,
+  type ClassifierConfig,
+} from "../services/classifier";
 
 interface ParseOptions {
   date: string;
+  task?: string;
+  check?: boolean; // Compare archived updates against stored expectations
+  accept?: boolean; // With --check, store current results as expected
+}
+
+// Expected parse result for an archived update (extractedAt left out)
+interface ParseExpectation {
+  date: string;
+  grammar: ParseGrammar;
+  tools: Omit<Tool, "extractedAt">[];
 }
 
 export async function parseCommand(options: ParseOptions): Promise<void> {
+  if (options.check) return parseCheckCommand(options);
+
   const spinner = ora("Parsing daily update...").start();
 
   try {
     const { date } = options;
-    const updatePath = join(DATA_DIR, "updates", `${date}.md`);
+    const dataDir = await taskDataDir(options.task);
+    const updatePath = join(dataDir, "updates", `${date}.md`);
 
     if (!existsSync(updatePath)) {
       spinner.fail(`No update found for ${date}`);
@@ -37,9 +66,21 @@ export async function parseCommand(options: ParseOptions): Promise<void> {
     const content = await readFile(updatePath, "utf-8");
 
     spinner.text = "Extracting tools...";
-    const tools = extractTools(content);
+    const classifier = await loadClassifierConfig();
+    const { tools, parser, diagnostics } = extractTools(content, classifier);
     const news = extractNews(content);
 
+    // Stable IDs across days; re-parsing a date replaces its mentions
+    const registry = await loadRegistry(dataDir);
+    diagnostics.push(...registerTools(registry, date, tools));
+    await saveRegistry(dataDir, registry);
+
+    // Capture metadata is written alongside the raw update by capture
+    const sourcePath = join(dataDir, "updates", `${date}.source.json`);
+    const source: CaptureInfo | undefined = existsSync(sourcePath)
+      ? JSON.parse(await readFile(sourcePath, "utf-8"))
+      : undefined;
+
     // Create DailyUpdate object
     const dailyUpdate: DailyUpdate = {
       date,
@@ -47,25 +88,44 @@ export async function parseCommand(options: ParseOptions): Promise<void> {
       news,
       tools,
       sourcesSearched: extractSources(content),
-      capturedAt: new Date().toISOString(),
+      capturedAt: source?.capturedAt || new Date().toISOString(),
+      source,
+      parser,
+      diagnostics,
     };
 
     // Save parsed data as JSON
-    const toolsDir = join(DATA_DIR, "tools");
+    const toolsDir = join(dataDir, "tools");
     await mkdir(toolsDir, { recursive: true });
 
-    const parsedPath = join(DATA_DIR, "updates", `${date}.json`);
+    const parsedPath = join(dataDir, "updates", `${date}.json`);
     await writeFile(parsedPath, JSON.stringify(dailyUpdate, null, 2));
 
     spinner.succeed(`Parsed ${tools.length} tools from ${date}`);
+    console.log(
+      chalk.gray(
+        `  Format: ${parser.grammar} (confidence ${parser.confidence})${parser.merged ? ` + ${parser.merged.join(", ")}` : ""}`,
+      ),
+    );
     console.log(chalk.gray(`  News items: ${news.length}`));
+    if (source) {
+      console.log(chalk.gray(`  Captured via: ${source.kind}`));
+    }
     console.log(chalk.gray(`  Saved to: ${parsedPath}`));
 
+    if (diagnostics.length > 0) {
+      console.log(chalk.yellow(`\n  Diagnostics (${diagnostics.length}):`));
+      for (const diagnostic of diagnostics) {
+        console.log(chalk.yellow(`    ${formatDiagnostic(diagnostic)}`));
+      }
+    }
+
     // List tools found
     if (tools.length > 0) {
       console.log(chalk.cyan("\n  Tools found:"));
       tools.forEach((tool, i) => {
-        console.log(chalk.white(`    ${i + 1}. ${tool.name}`));
+        const id = tool.id !== tool.slug ? chalk.gray(` (${tool.id})`) : "";
+        console.log(chalk.white(`    ${i + 1}. ${tool.name}`) + id);
         console.log(chalk.gray(`       ${tool.description.slice(0, 60)}...`));
       });
     }
@@ -78,12 +138,422 @@ export async function parseCommand(options: ParseOptions): Promise<void> {
 }
 
 /**
- * Extract tool entries from markdown content
- * Handles formats:
+ * Re-parse every archived update and diff it against its stored expectation
+ * (data/updates/<date>.expected.json), so grammar changes can't silently
+ * regress old days
+ */
+async function parseCheckCommand(options: ParseOptions): Promise<void> {
+  const dataDir = await taskDataDir(options.task);
+  const updatesDir = join(dataDir, "updates");
+
+  const dates = existsSync(updatesDir)
+    ? (await readdir(updatesDir))
+        .filter((f) => /^\d{4}-\d{2}-\d{2}\.md$/.test(f))
+        .map((f) => f.replace(/\.md$/, ""))
+        .sort()
+    : [];
+
+  if (dates.length === 0) {
+    console.log(chalk.yellow(`No archived updates in ${updatesDir}`));
+    return;
+  }
+
+  console.log(
+    chalk.cyan.bold(`\n🧪 Checking ${dates.length} archived updates\n`),
+  );
+
+  const classifier = await loadClassifierConfig();
+  let matched = 0;
+  let changed = 0;
+  let missing = 0;
+
+  for (const date of dates) {
+    const content = await readFile(join(updatesDir, `${date}.md`), "utf-8");
+    const actual = toExpectation(date, extractTools(content, classifier));
+    const expectedPath = join(updatesDir, `${date}.expected.json`);
+
+    if (options.accept) {
+      await writeFile(expectedPath, JSON.stringify(actual, null, 2));
+      console.log(chalk.gray(`  ${date}: saved ${actual.tools.length} tools`));
+      continue;
+    }
+
+    if (!existsSync(expectedPath)) {
+      missing++;
+      console.log(chalk.gray(`  ${date}: no expectation`));
+      continue;
+    }
+
+    const expected: ParseExpectation = JSON.parse(
+      await readFile(expectedPath, "utf-8"),
+    );
+    const diff = diffExpectation(expected, actual);
+    if (diff.length === 0) {
+      matched++;
+      console.log(chalk.green(`  ✓ ${date}: ${actual.tools.length} tools`));
+      continue;
+    }
+
+    changed++;
+    console.log(chalk.red(`  ✗ ${date}: ${diff.length} differences`));
+    for (const line of diff) {
+      console.log(
+        line.startsWith("+")
+          ? chalk.green(`      ${line}`)
+          : line.startsWith("-")
+            ? chalk.red(`      ${line}`)
+            : chalk.yellow(`      ${line}`),
+      );
+    }
+  }
+
+  if (options.accept) {
+    console.log(
+      chalk.green(`\n  Saved expectations for ${dates.length} updates`),
+    );
+    return;
+  }
+
+  console.log(
+    chalk.cyan(
+      `\n  ${matched} match, ${changed} changed, ${missing} without expectations`,
+    ),
+  );
+  if (changed > 0 || missing > 0) {
+    console.log(
+      chalk.gray("  Run 'parse --check --accept' to store the current results"),
+    );
+  }
+  if (changed > 0) process.exitCode = 1;
+}
+
+function toExpectation(date: string, result: ParseResult): ParseExpectation {
+  return {
+    date,
+    grammar: result.parser.grammar,
+    tools: result.tools.map(({ extractedAt: _, ...tool }) => tool),
+  };
+}
+
+/**
+ * Line-per-change diff: "- removed", "+ added", "~ field: old → new"
+ */
+function diffExpectation(
+  expected: ParseExpectation,
+  actual: ParseExpectation,
+): string[] {
+  const diff: string[] = [];
+
+  if (expected.grammar !== actual.grammar) {
+    diff.push(`~ grammar: ${expected.grammar} → ${actual.grammar}`);
+  }
+
+  const actualBySlug = new Map(actual.tools.map((t) => [t.slug, t]));
+  const expectedSlugs = new Set(expected.tools.map((t) => t.slug));
+
+  for (const before of expected.tools) {
+    const after = actualBySlug.get(before.slug);
+    if (!after) {
+      diff.push(`- ${before.name}`);
+      continue;
+    }
+
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const field of fields) {
+      const old = JSON.stringify(before[field as keyof typeof before]);
+      const now = JSON.stringify(after[field as keyof typeof after]);
+      if (old !== now) {
+        diff.push(
+          `~ ${before.name} ${field}: ${old ?? "none"} → ${now ?? "none"}`,
+        );
+      }
+    }
+  }
+
+  for (const tool of actual.tools) {
+    if (!expectedSlugs.has(tool.slug)) diff.push(`+ ${tool.name}`);
+  }
+
+  return diff;
+}
+
+function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  const where = diagnostic.line ? `line ${diagnostic.line}: ` : "";
+  return `[${diagnostic.kind}] ${where}${diagnostic.message}`;
+}
+
+/**
+ * A tool-list format, tried in turn by extractTools
+ */
+interface Grammar {
+  name: ParseGrammar;
+  base: number; // Confidence when the grammar explains the whole update
+  extract(content: string, diagnostics: ParseDiagnostic[]): Tool[];
+}
+
+const GRAMMARS: Grammar[] = [
+  { name: "json", base: 1, extract: extractJsonTools },
+  { name: "table", base: 0.95, extract: extractTableTools },
+  { name: "headings", base: 0.9, extract: extractHeadingTools },
+  { name: "numbered-list", base: 0.85, extract: extractNumberedTools },
+];
+
+// Runner-up grammars below this confidence never contribute tools
+const MERGE_THRESHOLD = 0.4;
+
+// Longer descriptions are cut (and reported)
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// Metadata field names to skip
+const metadataFields = [
+  "installation",
+  "github",
+  "application",
+  "source",
+  "npm",
+  "usage",
+  "docs",
+  "license",
+];
+// Metadata extraction patterns
+const installPattern = /\*\*Installation:\*\*\s*`?([^`\n]+)`?/i;
+const githubPattern = /\*\*GitHub:\*\*\s*(https?:\/\/[^\s\n]+)/i;
+const applicationPattern = /\*\*Application:\*\*\s*([^\n]+)/i;
+const sourcePattern = /\*\*Source:\*\*\s*(@[\w_]+)/i;
+
+// Unlabeled metadata: repo links, install commands, "via @handle"
+const githubRepoPattern = /https?:\/\/(?:www\.)?github\.com\/[\w.-]+\/[\w.-]+/i;
+// (the commands services/install.ts parses: runners need no subcommand)
+const installCommandPattern =
+  /(?:\b(?:npm|pnpm|yarn|bun|pip3?|pipx|uv|cargo|go|brew|docker|git|claude)\s+(?:i|add|install|run|pull|clone|get|global|plugin|mcp|tool|pip)\b|\b(?:npx|bunx|uvx)\s+(?=[@\w-])|\/plugin\s+install\b)[^`|\n]*/i;
+const handlePattern = /\b(?:source|via|by|from)[:\s]+(@\w{1,15})\b/i;
+
+type ToolMetadata = Pick<Tool, "installCommand" | "githubUrl" | "source">;
+
+// A repo link or install command found in the raw update
+interface Evidence {
+  key: string;
+  line: number;
+  text: string;
+}
+
+export interface ParseResult {
+  tools: Tool[];
+  parser: ParserInfo;
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Extract tool entries from markdown content, whatever the format
+ *
+ * Every grammar is run over the update; the most confident result wins,
+ * plus any extra tools a confident runner-up found that the winner missed.
+ * Kept tools are then categorized by the classifier rules.
+ */
+function extractTools(
+  content: string,
+  classifier: ClassifierConfig,
+): ParseResult {
+  const evidence = findEvidence(content);
+  const candidates = GRAMMARS.map((grammar) => {
+    const diagnostics: ParseDiagnostic[] = [];
+    const tools = grammar.extract(content, diagnostics);
+    return {
+      grammar: grammar.name,
+      tools,
+      diagnostics,
+      confidence: grammarConfidence(
+        grammar.base,
+        tools,
+        evidence.map((e) => e.key),
+      ),
+    };
+  }).sort((a, b) => b.confidence - a.confidence);
+
+  const [best, ...runnersUp] = candidates;
+  if (!best) throw new Error("No parser grammars registered");
+
+  const tools = [...best.tools];
+  const merged: ParseGrammar[] = [];
+  const dropped: Tool[] = [];
+  const droppedDiagnostics: ParseDiagnostic[] = [];
+  for (const candidate of runnersUp) {
+    const extra = candidate.tools.filter((tool) =>
+      isNewTool(tool, [...tools, ...dropped]),
+    );
+    if (extra.length === 0) continue;
+
+    if (candidate.confidence >= MERGE_THRESHOLD) {
+      tools.push(...extra);
+      merged.push(candidate.grammar);
+      continue;
+    }
+    // Too unsure to keep, but worth a look: they may be real tools
+    dropped.push(...extra);
+    for (const tool of extra) {
+      droppedDiagnostics.push({
+        kind: "dropped-tool",
+        tool: tool.name,
+        message: `${tool.name} found only by the ${candidate.grammar} grammar (confidence ${round(candidate.confidence)}, under ${MERGE_THRESHOLD}), not kept`,
+      });
+    }
+  }
+
+  const diagnostics = [
+    ...best.diagnostics,
+    ...droppedDiagnostics,
+    ...checkTools(tools, evidence),
+  ].filter(
+    (d, i, all) =>
+      d.line === undefined ||
+      all.findIndex((o) => o.kind === d.kind && o.line === d.line) === i,
+  );
+
+  return {
+    tools: tools.map((tool) => {
+      const { category, tags } = classifyTool(tool, classifier);
+      return truncateDescription(
+        { ...tool, category, tags: tags.length > 0 ? tags : undefined },
+        diagnostics,
+      );
+    }),
+    diagnostics,
+    parser: {
+      grammar: best.grammar,
+      confidence: round(best.confidence),
+      merged: merged.length > 0 ? merged : undefined,
+      candidates: candidates.map((c) => ({
+        grammar: c.grammar,
+        confidence: round(c.confidence),
+        tools: c.tools.length,
+      })),
+    },
+  };
+}
+
+/**
+ * Diagnostics for the kept tools: no links, and update metadata
+ * that ended up attached to none of them
+ */
+function checkTools(tools: Tool[], evidence: Evidence[]): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  const captured = tools.flatMap(toolEvidence);
+
+  for (const item of evidence) {
+    if (!captured.some((c) => c.includes(item.key) || item.key.includes(c))) {
+      diagnostics.push({
+        kind: "orphan-metadata",
+        line: item.line,
+        message: `Not attached to any tool: ${item.text}`,
+      });
+    }
+  }
+
+  for (const tool of tools) {
+    if ((tool.links || []).length === 0) {
+      diagnostics.push({
+        kind: "no-links",
+        tool: tool.name,
+        message: `${tool.name} has no links`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function truncateDescription(tool: Tool, diagnostics: ParseDiagnostic[]): Tool {
+  if (tool.description.length <= MAX_DESCRIPTION_LENGTH) return tool;
+
+  diagnostics.push({
+    kind: "truncated-description",
+    tool: tool.name,
+    message: `${tool.name} description cut from ${tool.description.length} to ${MAX_DESCRIPTION_LENGTH} characters`,
+  });
+  return {
+    ...tool,
+    description: tool.description.slice(0, MAX_DESCRIPTION_LENGTH),
+  };
+}
+
+/**
+ * How much of the update's tool metadata (repo links and install commands)
+ * a grammar's tools account for, weighted with how many have descriptions
+ */
+function grammarConfidence(
+  base: number,
+  tools: Tool[],
+  evidence: string[],
+): number {
+  if (tools.length === 0) return 0;
+
+  const described =
+    tools.filter((t) => t.description.length > 0).length / tools.length;
+
+  let explained = 1;
+  if (evidence.length > 0) {
+    const captured = tools.flatMap(toolEvidence);
+    explained =
+      evidence.filter((e) =>
+        captured.some((c) => c.includes(e) || e.includes(c)),
+      ).length / evidence.length;
+  }
+
+  return base * (0.6 * explained + 0.4 * described);
+}
+
+function findEvidence(content: string): Evidence[] {
+  const evidence = new Map<string, Evidence>();
+  const add = (key: string, line: number, text: string) => {
+    if (!evidence.has(key)) evidence.set(key, { key, line, text });
+  };
+
+  content.split("\n").forEach((line, i) => {
+    for (const match of line.matchAll(
+      new RegExp(githubRepoPattern.source, "gi"),
+    )) {
+      add(githubKey(match[0]), i + 1, cleanUrl(match[0]));
+    }
+    const install = line.match(installCommandPattern);
+    if (install) {
+      add(install[0].trim().toLowerCase(), i + 1, install[0].trim());
+    }
+  });
+
+  return [...evidence.values()];
+}
+
+function toolEvidence(tool: Tool): string[] {
+  const evidence: string[] = [];
+  if (tool.githubUrl) evidence.push(githubKey(tool.githubUrl));
+  if (tool.installCommand) {
+    evidence.push(tool.installCommand.trim().toLowerCase());
+  }
+  return evidence;
+}
+
+/**
+ * A runner-up tool is only merged if it brings metadata no kept tool has,
+ * so section headings that swallowed other tools' metadata are dropped
+ */
+function isNewTool(tool: Tool, kept: Tool[]): boolean {
+  const evidence = toolEvidence(tool);
+  if (evidence.length === 0) return false;
+  if (kept.some((k) => k.slug === tool.slug)) return false;
+
+  const keptEvidence = kept.flatMap(toolEvidence);
+  return !evidence.some((e) => keptEvidence.includes(e));
+}
+
+/**
+ * Headings and bold bullets:
  * 1. H3 headers: ### Tool Name
  * 2. Bullet format: - **Tool Name**: Description
  */
-function extractTools(content: string): Tool[] {
+function extractHeadingTools(
+  content: string,
+  diagnostics: ParseDiagnostic[],
+): Tool[] {
   const tools: Tool[] = [];
   const lines = content.split("\n");
 
@@ -91,22 +561,6 @@ function extractTools(content: string): Tool[] {
   const h3Pattern = /^###\s+(.+?)(?:\s*[-–—]\s*(.+))?$/;
   // Bullet with bold name: - **Name**: Description (but NOT metadata fields)
   const bulletPattern = /^[\s•\-\*]+\*\*([^*]+)\*\*[:\s]+(.+)/;
-  // Metadata field names to skip
-  const metadataFields = [
-    "installation",
-    "github",
-    "application",
-    "source",
-    "npm",
-    "usage",
-    "docs",
-    "license",
-  ];
-  // Metadata extraction patterns
-  const installPattern = /\*\*Installation:\*\*\s*`?([^`\n]+)`?/i;
-  const githubPattern = /\*\*GitHub:\*\*\s*(https?:\/\/[^\s\n]+)/i;
-  const applicationPattern = /\*\*Application:\*\*\s*([^\n]+)/i;
-  const sourcePattern = /\*\*Source:\*\*\s*(@[\w_]+)/i;
 
   let currentTool: Partial<Tool> | null = null;
   let currentDescription: string[] = [];
@@ -116,22 +570,23 @@ function extractTools(content: string): Tool[] {
     if (currentTool && currentTool.name) {
       const blockText = currentBlock.join("\n");
 
-      // Extract metadata from block
-      const installMatch = blockText.match(installPattern);
-      if (installMatch) currentTool.installCommand = installMatch[1].trim();
-
-      const githubMatch = blockText.match(githubPattern);
-      if (githubMatch) currentTool.githubUrl = githubMatch[1].trim();
-
       const appMatch = blockText.match(applicationPattern);
       if (appMatch && !currentDescription.length) {
         currentDescription.push(appMatch[1].trim());
       }
 
-      const sourceMatch = blockText.match(sourcePattern);
-      if (sourceMatch) currentTool.source = sourceMatch[1].trim();
-
-      tools.push(finalizeTool(currentTool, currentDescription.join(" ")));
+      tools.push(
+        finalizeTool(
+          {
+            ...currentTool,
+            ...readMetadata(blockText),
+            links: extractLinks(
+              `${currentDescription.join(" ")}\n${blockText}`,
+            ),
+          },
+          currentDescription.join(" "),
+        ),
+      );
     }
   };
 
@@ -139,15 +594,18 @@ function extractTools(content: string): Tool[] {
     const line = lines[i];
     const trimmed = line.trim();
 
+    // A section heading ends the tool (a table or list may follow)
+    if (/^#{1,2}\s/.test(trimmed)) {
+      saveTool();
+      currentTool = null;
+      continue;
+    }
+
     // Check for H3 header (tool name)
     const h3Match = trimmed.match(h3Pattern);
     if (h3Match) {
       saveTool();
-      currentTool = {
-        name: h3Match[1].trim(),
-        slug: slugify(h3Match[1].trim()),
-        extractedAt: new Date().toISOString(),
-      };
+      currentTool = newTool(h3Match[1].trim());
       currentDescription = h3Match[2] ? [h3Match[2].trim()] : [];
       currentBlock = [];
       continue;
@@ -160,15 +618,19 @@ function extractTools(content: string): Tool[] {
       // Skip if this is a metadata field, not a tool name
       if (!metadataFields.includes(fieldName.replace(":", ""))) {
         saveTool();
-        currentTool = {
-          name: bulletMatch[1].trim(),
-          slug: slugify(bulletMatch[1].trim()),
-          extractedAt: new Date().toISOString(),
-        };
+        currentTool = newTool(bulletMatch[1].trim());
         currentDescription = [bulletMatch[2].trim()];
         currentBlock = [];
         continue;
       }
+
+      if (!currentTool) {
+        diagnostics.push({
+          kind: "orphan-metadata",
+          line: i + 1,
+          message: `Metadata before any tool: ${trimmed}`,
+        });
+      }
     }
 
     // Collect lines for current tool
@@ -176,13 +638,7 @@ function extractTools(content: string): Tool[] {
       currentBlock.push(line);
 
       // Non-metadata description lines (first paragraph after header)
-      if (
-        trimmed.length > 0 &&
-        !trimmed.startsWith("-") &&
-        !trimmed.startsWith("*") &&
-        !trimmed.startsWith("#") &&
-        currentDescription.length === 0
-      ) {
+      if (isDescriptionLine(trimmed) && currentDescription.length === 0) {
         currentDescription.push(trimmed);
       }
     }
@@ -194,37 +650,427 @@ function extractTools(content: string): Tool[] {
   return tools;
 }
 
-function finalizeTool(partial: Partial<Tool>, description: string): Tool {
+/**
+ * Numbered lists, with metadata on the item line or indented below it:
+ *   1. **Tool Name** - Description
+ *   2. [Tool Name](https://github.com/owner/repo): Description
+ *   3) Tool Name — Description
+ */
+function extractNumberedTools(
+  content: string,
+  diagnostics: ParseDiagnostic[],
+): Tool[] {
+  const tools: Tool[] = [];
+  const lines = content.split("\n");
+
+  const itemPattern = /^\d{1,3}[.)]\s+(.+)$/;
+  const boldPattern = /^\*\*([^*]+)\*\*\s*(?:[:\-–—]\s*)?(.*)$/;
+  const linkPattern = /^\[([^\]]+)\]\(([^)\s]+)\)\s*(?:[:\-–—]\s*)?(.*)$/;
+  const plainPattern = /^([^:–—*[]{1,60}?)\s*(?::|\s[-–—])\s+(.+)$/;
+
+  let current: { name: string; item: string; block: string[] } | null = null;
+
+  const saveTool = () => {
+    if (!current) return;
+
+    const { name, item, block } = current;
+    const text = [item, ...block].join("\n");
+    const metadata = readMetadata(text);
+    const description = withoutInstall(
+      item || block.map((l) => l.trim()).find(isDescriptionLine) || "",
+      metadata.installCommand,
+    );
+
+    tools.push(
+      finalizeTool(
+        { ...newTool(name), ...metadata, links: extractLinks(text) },
+        description,
+      ),
+    );
+    current = null;
+  };
+
+  lines.forEach((line, i) => {
+    const trimmed = line.trim();
+
+    // Headings end the list
+    if (trimmed.startsWith("#")) {
+      saveTool();
+      return;
+    }
+
+    const itemMatch = line.match(itemPattern);
+    if (itemMatch) {
+      saveTool();
+      const text = (itemMatch[1] || "").trim();
+
+      const link = text.match(linkPattern);
+      const bold = text.match(boldPattern);
+      const plain = text.match(plainPattern);
+      const parts = link
+        ? { name: link[1], item: link[3], block: [link[2] || ""] } // Keep the link target for metadata
+        : bold
+          ? { name: bold[1], item: bold[2], block: [] }
+          : plain
+            ? { name: plain[1], item: plain[2], block: [] }
+            : undefined;
+      current = parts
+        ? {
+            name: (parts.name || "").trim(),
+            item: (parts.item || "").trim(),
+            block: parts.block,
+          }
+        : null;
+
+      if (!current) {
+        diagnostics.push({
+          kind: "skipped-line",
+          line: i + 1,
+          message: `List item without a tool name: ${text}`,
+        });
+      } else if (
+        metadataFields.includes(current.name.toLowerCase().replace(":", ""))
+      ) {
+        diagnostics.push({
+          kind: "skipped-line",
+          line: i + 1,
+          message: `Metadata field used as a list item: ${text}`,
+        });
+        current = null;
+      }
+      return;
+    }
+
+    if (current) current.block.push(line);
+  });
+
+  saveTool();
+
+  return tools;
+}
+
+/**
+ * Markdown tables with a tool name column:
+ *   | Tool | Description | Install | GitHub | Source |
+ */
+function extractTableTools(
+  content: string,
+  diagnostics: ParseDiagnostic[],
+): Tool[] {
+  const tools: Tool[] = [];
+
+  for (const { header, rows, line } of findTables(content)) {
+    const column = (pattern: RegExp) => {
+      const index = header.findIndex((h) => pattern.test(plainText(h)));
+      return index === -1 ? undefined : index;
+    };
+    const nameColumn = column(/^(tool|name|project|tool name)$/i);
+    if (nameColumn === undefined) {
+      diagnostics.push({
+        kind: "skipped-line",
+        line,
+        message: `Table without a tool name column: ${header.join(" | ")}`,
+      });
+      continue;
+    }
+
+    const columns = {
+      description: column(/desc|what|summary|about|purpose/i),
+      install: column(/install|setup|command/i),
+      github: column(/github|repo|link|url/i),
+      source: column(/source|via|author|handle/i),
+    };
+
+    for (const { cells: row, line: rowLine } of rows) {
+      const cell = (index?: number) =>
+        index === undefined ? "" : (row[index] || "").trim();
+
+      const name = plainText(cell(nameColumn));
+      if (!name) {
+        diagnostics.push({
+          kind: "skipped-line",
+          line: rowLine,
+          message: `Table row without a tool name: ${row.join(" | ")}`,
+        });
+        continue;
+      }
+
+      // Named columns win; otherwise look anywhere in the row
+      const fallback = readMetadata(row.join(" | "));
+      const install = cell(columns.install).replace(/`/g, "").trim();
+      const github = cell(columns.github).match(githubRepoPattern)?.[0];
+      const source = toHandle(plainText(cell(columns.source)));
+
+      tools.push(
+        finalizeTool(
+          {
+            ...newTool(name),
+            installCommand: install || fallback.installCommand,
+            githubUrl: github ? cleanUrl(github) : fallback.githubUrl,
+            source: source || fallback.source,
+            links: extractLinks(row.join(" | ")),
+          },
+          plainText(cell(columns.description)),
+        ),
+      );
+    }
+  }
+
+  return tools;
+}
+
+/**
+ * Fenced JSON: an array of tools, or an object with a "tools" array
+ */
+function extractJsonTools(
+  content: string,
+  diagnostics: ParseDiagnostic[],
+): Tool[] {
+  const tools: Tool[] = [];
+
+  for (const match of content.matchAll(/```json[^\n]*\n([\s\S]*?)```/gi)) {
+    const line = content.slice(0, match.index).split("\n").length;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(match[1] || "");
+    } catch (error) {
+      diagnostics.push({
+        kind: "skipped-line",
+        line,
+        message: `Invalid JSON block: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      continue;
+    }
+
+    const entries = Array.isArray(data)
+      ? data
+      : isRecord(data) && Array.isArray(data.tools)
+        ? data.tools
+        : [];
+
+    for (const entry of entries) {
+      if (!isRecord(entry)) continue;
+
+      const name = pickString(entry, ["name", "tool", "title"]);
+      if (!name) {
+        diagnostics.push({
+          kind: "skipped-line",
+          line,
+          message: `JSON entry without a name: ${JSON.stringify(entry).slice(0, 80)}`,
+        });
+        continue;
+      }
+
+      const github = pickString(entry, [
+        "github",
+        "githubUrl",
+        "github_url",
+        "repo",
+        "repository",
+        "url",
+      ])?.match(githubRepoPattern)?.[0];
+
+      // URL-valued fields, labeled with their key ("docs", "homepage", ...)
+      const links: ToolLink[] = [];
+      for (const [key, value] of Object.entries(entry)) {
+        if (typeof value === "string" && /^https?:\/\//.test(value)) {
+          addLink(links, value, key);
+        }
+      }
+
+      tools.push(
+        finalizeTool(
+          {
+            ...newTool(name),
+            installCommand: pickString(entry, [
+              "install",
+              "installCommand",
+              "install_command",
+              "installation",
+            ]),
+            githubUrl: github ? cleanUrl(github) : undefined,
+            source: toHandle(
+              pickString(entry, ["source", "author", "handle"]) || "",
+            ),
+            links,
+          },
+          pickString(entry, ["description", "desc", "summary"]) || "",
+        ),
+      );
+    }
+  }
+
+  return tools;
+}
+
+function newTool(name: string): Partial<Tool> {
   return {
-    name: partial.name || "Unknown",
-    slug: partial.slug || slugify(partial.name || "unknown"),
-    description: description.slice(0, 500), // Truncate long descriptions
-    installCommand: partial.installCommand,
-    githubUrl: partial.githubUrl,
-    source: partial.source,
-    category: detectCategory(partial.name || "", description),
-    extractedAt: partial.extractedAt || new Date().toISOString(),
+    name,
+    slug: slugify(name),
+    extractedAt: new Date().toISOString(),
   };
 }
 
-function detectCategory(name: string, description: string): ToolCategory {
-  const text = `${name} ${description}`.toLowerCase();
+/**
+ * Install command, GitHub URL and source handle from a tool's text,
+ * labeled fields first, then anything that looks like one
+ */
+function readMetadata(text: string): ToolMetadata {
+  const metadata: ToolMetadata = {};
+
+  const install =
+    text.match(installPattern)?.[1] ||
+    [...text.matchAll(/`([^`\n]+)`/g)]
+      .map((m) => m[1] || "")
+      .find((code) => installCommandPattern.test(code));
+  if (install) metadata.installCommand = install.trim();
+
+  const github =
+    text.match(githubPattern)?.[1] || text.match(githubRepoPattern)?.[0];
+  if (github) metadata.githubUrl = cleanUrl(github);
+
+  const source =
+    text.match(sourcePattern)?.[1] || text.match(handlePattern)?.[1];
+  if (source) metadata.source = source.trim();
+
+  return metadata;
+}
+
+/**
+ * Drop the backticked install command (and an "install:" label before it)
+ * from a description written on the same line
+ */
+function withoutInstall(description: string, install?: string): string {
+  if (!install) return description;
+  return description
+    .replace(
+      /(?:\b(?:install(?:ation)?|via)\b\s*:?\s*)?`([^`\n]+)`/gi,
+      (span, code: string) => (code.trim() === install ? " " : span),
+    )
+    .replace(/\(\s*\)/g, "")
+    .replace(/\s{2,}/g, " ")
+    .replace(/[\s:;,\-–—]+$/, "")
+    .trim();
+}
 
-  if (text.includes("plugin") || text.includes("claude code"))
-    return "claude-plugin";
-  if (text.includes("skill")) return "claude-skill";
-  if (text.includes("cli") || text.includes("command")) return "cli-tool";
-  if (text.includes("framework")) return "framework";
-  if (text.includes("npm") || text.includes("package")) return "npm-package";
+function isDescriptionLine(trimmed: string): boolean {
+  return (
+    trimmed.length > 0 &&
+    !trimmed.startsWith("-") &&
+    !trimmed.startsWith("*") &&
+    !trimmed.startsWith("#") &&
+    !trimmed.startsWith("|") &&
+    !trimmed.startsWith("```")
+  );
+}
 
-  return "other";
+interface MarkdownTable {
+  header: string[];
+  rows: { cells: string[]; line: number }[];
+  line: number; // 1-based line of the header row
 }
 
-function slugify(text: string): string {
+function findTables(content: string): MarkdownTable[] {
+  const tables: MarkdownTable[] = [];
+  const lines = content.split("\n").map((l) => l.trim());
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    const header = lines[i] || "";
+    const separator = lines[i + 1] || "";
+    if (!header.startsWith("|") || !/^\|?\s*:?-{3,}/.test(separator)) continue;
+
+    const rows: MarkdownTable["rows"] = [];
+    let j = i + 2;
+    while (j < lines.length && (lines[j] || "").startsWith("|")) {
+      rows.push({ cells: splitRow(lines[j] || ""), line: j + 1 });
+      j++;
+    }
+
+    tables.push({ header: splitRow(header), rows, line: i + 1 });
+    i = j - 1;
+  }
+
+  return tables;
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Strip Markdown emphasis, code and link syntax from a cell or label
+ */
+function plainText(text: string): string {
   return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*`_]/g, "")
+    .trim();
+}
+
+function cleanUrl(url: string): string {
+  return url.trim().replace(/[).,;:>]+$/, "");
+}
+
+function githubKey(url: string): string {
+  return cleanUrl(url)
     .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/\.git$/, "");
+}
+
+/**
+ * Normalize "@user", "user" or an x.com/twitter.com profile link to "@user"
+ */
+function toHandle(text: string): string | undefined {
+  const profile = text.match(/(?:x|twitter)\.com\/(\w{1,15})/i);
+  if (profile) return `@${profile[1]}`;
+  const handle = text.match(/^@?(\w{1,15})$/);
+  return handle ? `@${handle[1]}` : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pickString(
+  entry: Record<string, unknown>,
+  keys: string[],
+): string | undefined {
+  for (const key of keys) {
+    const value = entry[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function finalizeTool(partial: Partial<Tool>, description: string): Tool {
+  // The GitHub URL may come from a label or column the links missed
+  const links = [...(partial.links || [])];
+  if (partial.githubUrl) addLink(links, partial.githubUrl);
+
+  return {
+    name: partial.name || "Unknown",
+    slug: partial.slug || slugify(partial.name || "unknown"),
+    description,
+    installCommand: partial.installCommand,
+    installSpecs: partial.installCommand
+      ? parseInstallCommand(partial.installCommand)
+      : undefined,
+    githubUrl: partial.githubUrl,
+    links,
+    source: partial.source,
+    category: "other", // Set by the classifier once tools are merged
+    extractedAt: partial.extractedAt || new Date().toISOString(),
+  };
 }
 
 function extractNews(content: string): NewsItem[] {
@@ -7,12 +7,33 @@ import ora from "ora";
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
-import type { ToolScore, DailyReport } from "../models/types";
+import type {
+  DiscoveredMatch,
+  ScoreDimension,
+  SecuritySeverity,
+  ToolScore,
+  DailyReport,
+  DailyUpdate,
+} from "../models/types";
+import { taskDataDir } from "../services/tasks";
+import { researchId } from "../services/snapshots";
+import { formatVelocity } from "../services/history";
+import { licenseLabel } from "../services/license";
+import { describeErrors, retryableErrors } from "../services/failures";
+import { replayedAt } from "../services/cassette";
 
-const DATA_DIR = join(import.meta.dir, "../../data");
+// Fewest stars gained in 7 days to make the Trending list
+const TRENDING_MIN_STARS = 20;
+
+const SEVERITY_ICONS: Record<SecuritySeverity, string> = {
+  high: "🔴",
+  medium: "🟠",
+  low: "🟡",
+};
 
 interface ReportOptions {
   date: string;
+  task?: string;
 }
 
 export async function reportCommand(options: ReportOptions): Promise<void> {
@@ -20,8 +41,9 @@ export async function reportCommand(options: ReportOptions): Promise<void> {
 
   try {
     const { date } = options;
-    const scoresPath = join(DATA_DIR, "scores", `${date}.json`);
-    const reportsDir = join(DATA_DIR, "reports");
+    const dataDir = await taskDataDir(options.task);
+    const scoresPath = join(dataDir, "scores", `${date}.json`);
+    const reportsDir = join(dataDir, "reports");
 
     if (!existsSync(scoresPath)) {
       spinner.fail(`No scores found for ${date}`);
@@ -29,7 +51,25 @@ export async function reportCommand(options: ReportOptions): Promise<void> {
       return;
     }
 
-    const scores: ToolScore[] = JSON.parse(await readFile(scoresPath, "utf-8"));
+    let scores: ToolScore[] = JSON.parse(await readFile(scoresPath, "utf-8"));
+    let unresearched: string[] = [];
+
+    // Score files from before date-scoped research held every tool ever
+    // researched; keep only the ones in this date's update
+    const parsedPath = join(dataDir, "updates", `${date}.json`);
+    if (existsSync(parsedPath)) {
+      const dailyUpdate: DailyUpdate = JSON.parse(
+        await readFile(parsedPath, "utf-8"),
+      );
+      const ids = new Set(dailyUpdate.tools.map(researchId));
+      scores = scores.filter((s) => ids.has(researchId(s.tool)));
+
+      // Tools whose research failed outright never got a score
+      const scored = new Set(scores.map((s) => researchId(s.tool)));
+      unresearched = dailyUpdate.tools
+        .filter((t) => !scored.has(researchId(t)))
+        .map((t) => t.name);
+    }
 
     // Generate report
     const report: DailyReport = {
@@ -48,11 +88,11 @@ export async function reportCommand(options: ReportOptions): Promise<void> {
       },
       topTools: scores.slice(0, 5),
       builtToday: [], // Would be populated by build command
-      generatedAt: new Date().toISOString(),
+      generatedAt: replayedAt() || new Date().toISOString(),
     };
 
     // Generate markdown report
-    const markdown = generateReportMarkdown(report, scores);
+    const markdown = generateReportMarkdown(report, scores, unresearched);
 
     // Save report
     await mkdir(reportsDir, { recursive: true });
@@ -82,6 +122,7 @@ export async function reportCommand(options: ReportOptions): Promise<void> {
 function generateReportMarkdown(
   report: DailyReport,
   scores: ToolScore[],
+  unresearched: string[] = [],
 ): string {
   let md = `# Daily Tool Update Report - ${report.date}\n\n`;
 
@@ -97,13 +138,31 @@ function generateReportMarkdown(
     report.recommendations.build.forEach((name) => {
       const score = scores.find((s) => s.tool.name === name);
       if (score) {
-        md += `### ${name} (${score.totalScore}/100)\n\n`;
+        md += `### ${name} (${score.totalScore}/100)${licenseBadge(score)}\n\n`;
         md += `> ${score.tool.description}\n\n`;
         md += `**Scores:**\n`;
-        md += `- Usefulness: ${score.usefulnessScore}/100\n`;
-        md += `- Quality: ${score.qualityScore}/100\n`;
+        md += `- Usefulness: ${dimensionScore(score, "usefulness", score.usefulnessScore)}\n`;
+        md += `- Quality: ${dimensionScore(score, "quality", score.qualityScore)}\n`;
         md += `- Innovation: ${score.innovationScore}/100\n`;
-        md += `- Momentum: ${score.momentumScore}/100\n\n`;
+        md += `- Momentum: ${dimensionScore(score, "momentum", score.momentumScore)}\n\n`;
+        const trend = formatVelocity(score.research.velocity);
+        if (trend) {
+          md += `**Trend:** ${trend}\n\n`;
+        }
+        for (const finding of score.license?.findings || []) {
+          md += `**${finding.verdict === "deny" ? "⛔ License denied" : "⚠️ License needs review"}:** ${licenseLabel(finding.license)}${finding.source === "dependency" ? ` (dependencies: ${finding.packages.join(", ")})` : ""}\n\n`;
+        }
+        const risks = score.research.security?.findings || [];
+        if (risks.length > 0) {
+          md += `**Supply-chain risks:**\n`;
+          risks.forEach((finding) => {
+            md += `- ${SEVERITY_ICONS[finding.severity]} ${finding.registry} ${finding.packageName}: ${finding.message}\n`;
+          });
+          md += "\n";
+        }
+        for (const match of unconfirmed(score)) {
+          md += `**⚠️ Unconfirmed ${match.kind === "github" ? "repo" : "package"}:** ${match.match} (${Math.round(match.confidence * 100)}% match from search)\n\n`;
+        }
         if (score.tool.installCommand) {
           md += `**Install:** \`${score.tool.installCommand}\`\n\n`;
         }
@@ -123,12 +182,76 @@ function generateReportMarkdown(
     report.recommendations.watch.forEach((name) => {
       const score = scores.find((s) => s.tool.name === name);
       if (score) {
-        md += `- **${name}** (${score.totalScore}/100) - ${score.tool.description.slice(0, 100)}...\n`;
+        const rising =
+          (score.research.velocity?.stars7d ?? 0) >= TRENDING_MIN_STARS
+            ? " 📈"
+            : "";
+        md += `- **${name}** (${score.totalScore}/100)${licenseBadge(score)}${rising} - ${score.tool.description.slice(0, 100)}...\n`;
+      }
+    });
+    md += "\n";
+  }
+
+  const trending = scores
+    .filter((s) => (s.research.velocity?.stars7d ?? 0) >= TRENDING_MIN_STARS)
+    .sort(
+      (a, b) =>
+        (b.research.velocity?.stars7d ?? 0) -
+        (a.research.velocity?.stars7d ?? 0),
+    );
+  if (trending.length > 0) {
+    md += `## 📈 Trending\n\n`;
+    trending.forEach((score) => {
+      md += `- **${score.tool.name}** (${score.recommendation}) - ${formatVelocity(score.research.velocity)}\n`;
+    });
+    md += "\n";
+  }
+
+  const risky = scores.filter(
+    (s) => (s.research.security?.findings || []).length > 0,
+  );
+  if (risky.length > 0) {
+    md += `## 🛡️ Supply-Chain Risks\n\n`;
+    risky.forEach((score) => {
+      const findings = score.research.security?.findings || [];
+      const kinds = [...new Set(findings.map((f) => f.kind))].join(", ");
+      const worst = findings.some((f) => f.severity === "high")
+        ? "high"
+        : findings.some((f) => f.severity === "medium")
+          ? "medium"
+          : "low";
+      md += `- ${SEVERITY_ICONS[worst]} **${score.tool.name}** (${score.recommendation}) - ${findings.length} ${findings.length === 1 ? "finding" : "findings"}: ${kinds}\n`;
+    });
+    md += "\n";
+  }
+
+  const toConfirm = scores.filter((s) => unconfirmed(s).length > 0);
+  if (toConfirm.length > 0) {
+    md += `## ❓ Needs Confirmation\n\n`;
+    md += `Found by search, not linked in the update. Check these before trusting their scores.\n\n`;
+    toConfirm.forEach((score) => {
+      for (const match of unconfirmed(score)) {
+        md += `- **${score.tool.name}** → ${match.match} (${Math.round(match.confidence * 100)}% match)\n`;
       }
     });
     md += "\n";
   }
 
+  const incomplete = scores.filter(
+    (s) => retryableErrors(s.research).length > 0,
+  );
+  if (incomplete.length > 0 || unresearched.length > 0) {
+    md += `## ⚠️ Incomplete Research\n\n`;
+    md += `Lookups failed for these tools, so their scores may be missing data.\n\n`;
+    incomplete.forEach((score) => {
+      md += `- **${score.tool.name}** (${score.recommendation}) - ${describeErrors(retryableErrors(score.research))}\n`;
+    });
+    unresearched.forEach((name) => {
+      md += `- **${name}** - no research\n`;
+    });
+    md += `\nRetry them with \`bun run research --retry-failed --date ${report.date}\`, then score and report again.\n\n`;
+  }
+
   if (report.recommendations.skip.length > 0) {
     md += `## ⏭️ Skipped\n\n`;
     report.recommendations.skip.forEach((name) => {
@@ -146,4 +269,41 @@ function generateReportMarkdown(
   return md;
 }
 
+/**
+ * " ⛔ AGPL-3.0" for a denied license, " ⚠️ license review" for one to check
+ */
+function licenseBadge(score: ToolScore): string {
+  const { license } = score;
+  if (!license || license.verdict === "allow") return "";
+  if (license.verdict === "review") return " ⚠️ license review";
+  const denied = license.findings
+    .filter((f) => f.verdict === "deny")
+    .map((f) => licenseLabel(f.license));
+  return ` ⛔ ${[...new Set(denied)].join(", ")}`;
+}
+
+/**
+ * "72/100", "? (GitHub rate-limited)" for a dimension left unknown, or
+ * "72/100 (partial: npm network error)" for one scored without some data
+ */
+function dimensionScore(
+  score: ToolScore,
+  dimension: ScoreDimension,
+  value: number,
+): string {
+  const errors = describeErrors(retryableErrors(score.research));
+  if (score.unknownScores?.includes(dimension)) return `? (${errors})`;
+  if (score.partialScores?.includes(dimension)) {
+    return `${value}/100 (partial: ${errors})`;
+  }
+  return `${value}/100`;
+}
+
+/**
+ * Repos and packages research guessed by search with low confidence
+ */
+function unconfirmed(score: ToolScore): DiscoveredMatch[] {
+  return (score.research.discovered || []).filter((m) => m.needsConfirmation);
+}
+
 export { generateReportMarkdown };
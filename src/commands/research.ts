@@ -4,32 +4,125 @@
 
 import chalk from "chalk";
 import ora from "ora";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import type {
+  DiscoveredMatch,
   Tool,
   ToolResearch,
   GitHubData,
-  NpmData,
   DailyUpdate,
 } from "../models/types";
-import { fetchGitHubData } from "../services/github";
-import { fetchNpmData } from "../services/npm";
-
-const DATA_DIR = join(import.meta.dir, "../../data");
-
-interface ResearchOptions {
+import { taskDataDir } from "../services/tasks";
+import {
+  GITHUB_API,
+  fetchGitHubData,
+  prefetchGitHubData,
+  setActivityDate,
+  setCountContributors,
+} from "../services/github";
+import { NPM_API, NPM_REGISTRY, fetchNpmData } from "../services/npm";
+import {
+  PYPI_API,
+  PYPI_STATS_SOURCES,
+  fetchPypiData,
+  pypiStatsSource,
+  setPypiStatsSource,
+} from "../services/pypi";
+import { providersFor, registryLabel } from "../services/providers";
+import {
+  analyzeSecurity,
+  loadAdvisories,
+  setAdvisoryDatabase,
+} from "../services/security";
+import {
+  describeErrors,
+  researchError,
+  retryableErrors,
+} from "../services/failures";
+import {
+  MIN_CONFIDENCE,
+  discoverPackage,
+  discoverRepo,
+} from "../services/discovery";
+import { runJobs } from "../services/scheduler";
+import { findLink } from "../services/links";
+import {
+  formatCacheStats,
+  setCacheMode,
+  setMaxRateLimitWait,
+} from "../services/http";
+import {
+  loadSnapshot,
+  researchId,
+  saveSnapshot,
+  snapshotDir,
+} from "../services/snapshots";
+import {
+  appendMetrics,
+  computeVelocity,
+  formatVelocity,
+  loadHistory,
+} from "../services/history";
+import {
+  CassetteMissError,
+  replayedAt,
+  saveCassette,
+  setupCassette,
+  type CassetteOptions,
+} from "../services/cassette";
+import {
+  NPM_MANAGERS,
+  PYPI_MANAGERS,
+  formatSpec,
+  installSpecsFor,
+} from "../services/install";
+
+interface ResearchOptions extends CassetteOptions {
   date: string;
   tool?: string;
+  task?: string;
+  cache?: boolean; // false with --no-cache
+  refresh?: boolean; // Revalidate every cached response
+  concurrency?: number; // Tools researched at once
+  maxWait?: number; // Minutes to wait for a rate limit to reset
+  pypiStats?: string; // PyPI download stats source (see PYPI_STATS_SOURCES)
+  contributors?: boolean; // Count contributors (a REST call per repo)
+  discover?: boolean; // false with --no-discover
+  osv?: string; // OSV advisory file or directory (default: DTU_OSV_DB)
+  retryFailed?: boolean; // Only tools whose research failed or is incomplete
 }
 
+const DEFAULT_CONCURRENCY = 4;
+
 export async function researchCommand(options: ResearchOptions): Promise<void> {
   const spinner = ora("Loading parsed update...").start();
+  setCacheMode(
+    options.cache === false ? "off" : options.refresh ? "refresh" : "use",
+  );
+  if (options.maxWait !== undefined) {
+    setMaxRateLimitWait(options.maxWait * 60 * 1000);
+  }
+  setCountContributors(!!options.contributors);
 
   try {
+    if (options.pypiStats) {
+      const source = PYPI_STATS_SOURCES[options.pypiStats];
+      if (!source) {
+        throw new Error(
+          `Unknown PyPI stats source '${options.pypiStats}' (${Object.keys(PYPI_STATS_SOURCES).join(", ")})`,
+        );
+      }
+      setPypiStatsSource(source);
+    }
+    if (options.osv) setAdvisoryDatabase(options.osv);
+    const advisoryCount = await loadAdvisories();
+    const cassette = await setupCassette(options);
     const { date, tool: specificTool } = options;
-    const parsedPath = join(DATA_DIR, "updates", `${date}.json`);
+    const discover = options.discover !== false;
+    const dataDir = await taskDataDir(options.task);
+    const parsedPath = join(dataDir, "updates", `${date}.json`);
 
     if (!existsSync(parsedPath)) {
       spinner.fail(`No parsed update found for ${date}`);
@@ -47,6 +140,7 @@ export async function researchCommand(options: ResearchOptions): Promise<void> {
       toolsToResearch = toolsToResearch.filter(
         (t) =>
           t.slug === specificTool ||
+          t.id === specificTool ||
           t.name.toLowerCase().includes(specificTool.toLowerCase()),
       );
       if (toolsToResearch.length === 0) {
@@ -55,57 +149,224 @@ export async function researchCommand(options: ResearchOptions): Promise<void> {
       }
     }
 
-    spinner.succeed(`Found ${toolsToResearch.length} tools to research`);
-
-    // Research each tool
-    const toolsDir = join(DATA_DIR, "tools");
-    await mkdir(toolsDir, { recursive: true });
-
-    for (const tool of toolsToResearch) {
-      const toolSpinner = ora(`Researching ${tool.name}...`).start();
-
-      try {
-        const research = await researchTool(tool);
-
-        // Save research to markdown file
-        const mdContent = generateResearchMarkdown(research);
-        const mdPath = join(toolsDir, `${tool.slug}.md`);
-        await writeFile(mdPath, mdContent);
-
-        // Also save JSON for scoring
-        const jsonPath = join(toolsDir, `${tool.slug}.json`);
-        await writeFile(jsonPath, JSON.stringify(research, null, 2));
+    // Retry tools with no snapshot for the date, or one with lookup errors
+    if (options.retryFailed) {
+      const retry = await Promise.all(
+        toolsToResearch.map(async (tool) => {
+          const snapshot = await loadSnapshot(dataDir, date, tool);
+          return (
+            !snapshot ||
+            snapshot.legacy ||
+            retryableErrors(snapshot.research).length > 0
+          );
+        }),
+      );
+      toolsToResearch = toolsToResearch.filter((_, i) => retry[i]);
+      if (toolsToResearch.length === 0) {
+        spinner.succeed(`No failed research to retry for ${date}`);
+        return;
+      }
+    }
 
-        toolSpinner.succeed(`${tool.name} - researched`);
+    spinner.succeed(`Found ${toolsToResearch.length} tools to research`);
+    if (cassette === "replay") {
+      console.log(chalk.gray("  Offline: replaying recorded responses"));
+    }
+    if (advisoryCount !== undefined) {
+      console.log(
+        chalk.gray(`  Checking packages against ${advisoryCount} advisories`),
+      );
+    }
 
-        // Show summary
-        if (research.github) {
-          console.log(
-            chalk.gray(
-              `    ⭐ ${research.github.stars} stars, ${research.github.forks} forks`,
-            ),
-          );
+    // Every repo in one go over GraphQL, when there's a token for it
+    setActivityDate(date);
+    const repoUrls = toolsToResearch
+      .map(extractGitHubUrl)
+      .filter((url): url is string => url !== null);
+    if (repoUrls.length > 0) {
+      const batchSpinner = ora(
+        `Fetching ${repoUrls.length} GitHub repos...`,
+      ).start();
+      const batch = await prefetchGitHubData(repoUrls);
+      if (!batch) {
+        batchSpinner.info(
+          cassette === "replay"
+            ? "Cassette was recorded over REST: replaying GitHub repos one by one"
+            : "No GITHUB_TOKEN: fetching GitHub repos over REST",
+        );
+      } else {
+        batchSpinner.succeed(
+          `Fetched ${batch.repos - batch.failed.length - batch.skipped} GitHub repos in ${batch.queries} GraphQL ${batch.queries === 1 ? "query" : "queries"}`,
+        );
+        for (const { repo, error } of batch.failed) {
+          console.log(chalk.yellow(`  ⚠️  ${repo}: ${error.message}`));
         }
-        if (research.npm) {
+        if (batch.skipped > 0) {
           console.log(
-            chalk.gray(
-              `    📦 ${research.npm.weeklyDownloads.toLocaleString()} weekly downloads`,
+            chalk.yellow(
+              `  ⚠️  ${batch.skipped} repos in failed queries will be fetched one by one`,
             ),
           );
         }
-      } catch (error) {
-        toolSpinner.fail(`${tool.name} - failed`);
-        console.log(
-          chalk.red(
-            `    ${error instanceof Error ? error.message : String(error)}`,
-          ),
-        );
       }
     }
 
+    // Research tools in parallel into this date's snapshot
+    const total = toolsToResearch.length;
+    let done = 0;
+    const progress = ora(`Researching 0/${total}...`).start();
+    const log = (...lines: string[]) => {
+      progress.clear();
+      lines.forEach((line) => console.log(line));
+      if (progress.isSpinning) progress.render();
+    };
+    const announced = new Set<string>();
+
+    const results = await runJobs(
+      toolsToResearch.map((tool) => ({
+        id: tool.name,
+        hosts: researchHosts(tool, discover),
+        run: async () => {
+          const notes: string[] = [];
+          const research = await researchTool(tool, notes, discover);
+          research.date = date;
+
+          // Replayed counts are old news, so they don't join the history
+          const history =
+            cassette === "replay"
+              ? await loadHistory(dataDir, researchId(tool))
+              : await appendMetrics(dataDir, research);
+          research.velocity = computeVelocity(history, research.researchedAt);
+          await saveSnapshot(
+            dataDir,
+            date,
+            research,
+            generateResearchMarkdown(research),
+          );
+          return { research, notes };
+        },
+      })),
+      {
+        concurrency: options.concurrency || DEFAULT_CONCURRENCY,
+        onWait: (host, until) => {
+          const key = `${host}@${until.getTime()}`;
+          if (announced.has(key)) return;
+          announced.add(key);
+          log(
+            chalk.yellow(
+              `  ⏸  ${host} rate limit spent - pausing until ${until.toLocaleTimeString()}`,
+            ),
+          );
+        },
+        onDone: (result) => {
+          done++;
+          progress.text = `Researching ${done}/${total}...`;
+
+          if ("error" in result) {
+            const { error } = result;
+            log(
+              chalk.red(`✖ ${result.job.id} - failed`),
+              chalk.red(
+                `    ${error instanceof Error ? error.message : String(error)}`,
+              ),
+            );
+            return;
+          }
+
+          const { research, notes } = result.value;
+          const lines = [chalk.green(`✔ ${research.tool.name} - researched`)];
+          if (research.github) {
+            lines.push(
+              chalk.gray(
+                `    ⭐ ${research.github.stars} stars, ${research.github.forks} forks`,
+              ),
+            );
+          }
+          if (research.npm) {
+            lines.push(
+              chalk.gray(
+                `    📦 ${research.npm.weeklyDownloads.toLocaleString()} weekly downloads`,
+              ),
+            );
+          }
+          if (research.pypi) {
+            const { downloads, version } = research.pypi;
+            lines.push(
+              chalk.gray(
+                downloads
+                  ? `    🐍 ${downloads.lastWeek.toLocaleString()} weekly downloads`
+                  : `    🐍 PyPI ${version}`,
+              ),
+            );
+          }
+          for (const match of research.discovered || []) {
+            lines.push(
+              chalk.gray(
+                `    🔎 ${match.match} (${Math.round(match.confidence * 100)}% match${match.needsConfirmation ? ", unconfirmed" : ""})`,
+              ),
+            );
+          }
+          for (const pkg of research.registries || []) {
+            lines.push(
+              chalk.gray(
+                pkg.popularity
+                  ? `    📦 ${registryLabel(pkg.registry)}: ${pkg.popularity.value.toLocaleString()} ${pkg.popularity.metric}`
+                  : `    📦 ${registryLabel(pkg.registry)}: ${pkg.version}`,
+              ),
+            );
+          }
+          const risks = research.security?.findings || [];
+          if (risks.length > 0) {
+            const high = risks.filter((f) => f.severity === "high").length;
+            lines.push(
+              (high > 0 ? chalk.red : chalk.yellow)(
+                `    🛡  ${risks.length} supply-chain ${risks.length === 1 ? "risk" : "risks"}${high > 0 ? ` (${high} high)` : ""}`,
+              ),
+            );
+          }
+          const errors = retryableErrors(research);
+          if (errors.length > 0) {
+            lines.push(
+              chalk.yellow(`    ⚠️  Incomplete: ${describeErrors(errors)}`),
+            );
+          }
+          const trend = formatVelocity(research.velocity);
+          if (trend) lines.push(chalk.gray(`    📈 ${trend}`));
+          for (const note of notes) lines.push(chalk.gray(`    ${note}`));
+          log(...lines);
+        },
+      },
+    );
+    progress.stop();
+
+    const failed = results.filter((r) => "error" in r).length;
     console.log(
-      chalk.green(`\n✅ Research complete for ${toolsToResearch.length} tools`),
+      chalk.green(
+        `\n✅ Research complete for ${total - failed} tools${failed > 0 ? ` (${failed} failed)` : ""}`,
+      ),
     );
+    console.log(chalk.gray(`  Saved to: ${snapshotDir(dataDir, date)}`));
+    const incomplete = results.filter(
+      (r) => "value" in r && retryableErrors(r.value.research).length > 0,
+    ).length;
+    if (failed + incomplete > 0) {
+      console.log(
+        chalk.yellow(
+          `  ${failed + incomplete} ${failed + incomplete === 1 ? "tool has" : "tools have"} incomplete research - run 'bun run research --retry-failed --date ${date}' to try again`,
+        ),
+      );
+    }
+
+    // Requests spent per host (cached and 304 responses are free)
+    for (const line of formatCacheStats()) {
+      console.log(chalk.gray(`  HTTP ${line}`));
+    }
+
+    const recorded = await saveCassette();
+    if (recorded) console.log(chalk.gray(`  Recorded to: ${recorded}`));
+
+    // A replay that missed isn't a faithful run
+    if (cassette === "replay" && failed > 0) process.exitCode = 1;
   } catch (error) {
     spinner.fail("Failed to research tools");
     console.error(
@@ -114,85 +375,245 @@ export async function researchCommand(options: ResearchOptions): Promise<void> {
   }
 }
 
-async function researchTool(tool: Tool): Promise<ToolResearch> {
+/**
+ * @param notes - collects why a source had no data
+ */
+async function researchTool(
+  tool: Tool,
+  notes: string[] = [],
+  discover = true,
+): Promise<ToolResearch> {
   const research: ToolResearch = {
     tool,
     webSources: [],
-    researchedAt: new Date().toISOString(),
+    researchedAt: replayedAt() || new Date().toISOString(),
   };
 
-  // Try to find GitHub repo
-  const githubUrl = extractGitHubUrl(tool);
+  // Try to find GitHub repo, by search when the update links none
+  let githubUrl = extractGitHubUrl(tool);
+  if (!githubUrl && discover) {
+    githubUrl = await searchFor(research, notes, "github", "GitHub repo", () =>
+      discoverRepo(tool),
+    );
+  }
   if (githubUrl) {
     try {
       research.github = await fetchGitHubData(githubUrl);
     } catch (e) {
-      console.log(chalk.gray(`    No GitHub data: ${e}`));
+      recordFailure(research, notes, "github", "GitHub", e);
     }
   }
 
-  // Try to find npm package
-  const npmPackage = extractNpmPackage(tool);
+  // Try to find npm package, by search when the tool ships as no package
+  let npmPackage = extractNpmPackage(tool);
+  if (!npmPackage && discover && !hasPackage(tool)) {
+    npmPackage = await searchFor(research, notes, "npm", "npm package", () =>
+      discoverPackage(tool),
+    );
+  }
   if (npmPackage) {
     try {
       research.npm = await fetchNpmData(npmPackage);
     } catch (e) {
-      console.log(chalk.gray(`    No npm data: ${e}`));
+      recordFailure(research, notes, "npm", "npm", e);
     }
   }
 
-  return research;
-}
+  // Try to find PyPI package
+  const pypiPackage = extractPypiPackage(tool);
+  if (pypiPackage) {
+    try {
+      research.pypi = await fetchPypiData(pypiPackage);
+    } catch (e) {
+      recordFailure(research, notes, "pypi", "PyPI", e);
+    }
+  }
 
-function extractGitHubUrl(tool: Tool): string | null {
-  // First check if we already have a GitHub URL from parsing
-  if (tool.githubUrl && tool.githubUrl.includes("github.com/")) {
-    return tool.githubUrl;
+  // crates.io, Homebrew, Docker Hub and Go modules, by install command
+  for (const { provider, spec } of providersFor(tool)) {
+    try {
+      research.registries = [
+        ...(research.registries || []),
+        await provider.fetch(spec.packageId),
+      ];
+    } catch (e) {
+      recordFailure(research, notes, provider.registry, provider.label, e);
+    }
   }
 
-  const text = `${tool.description} ${tool.installCommand || ""} ${tool.source || ""}`;
+  // Install-time risks of its npm and PyPI packages
+  research.security = await analyzeSecurity(research);
+
+  return research;
+}
 
-  // Look for GitHub URLs in text
-  const githubMatch = text.match(/github\.com\/([^\/\s]+\/[^\/\s]+)/i);
-  if (githubMatch) {
-    return `https://github.com/${githubMatch[1].replace(/[^\w\-\/]/g, "")}`;
+/**
+ * Search for a repo or package and record the best match, if it's
+ * confident enough to use
+ * @returns the repo URL or package name, or null
+ */
+async function searchFor(
+  research: ToolResearch,
+  notes: string[],
+  provider: string,
+  label: string,
+  find: () => Promise<DiscoveredMatch | undefined>,
+): Promise<string | null> {
+  try {
+    const match = await find();
+    if (!match) {
+      notes.push(`No ${label} found by search`);
+      return null;
+    }
+    if (match.confidence < MIN_CONFIDENCE) {
+      notes.push(
+        `No confident ${label} match (best: ${match.match}, ${Math.round(match.confidence * 100)}%)`,
+      );
+      return null;
+    }
+    research.discovered = [...(research.discovered || []), match];
+    return match.match;
+  } catch (e) {
+    if (e instanceof CassetteMissError) throw e;
+    research.errors = [
+      ...(research.errors || []),
+      researchError(`${provider}-search`, e),
+    ];
+    notes.push(`${label} search failed: ${e}`);
+    return null;
   }
+}
 
-  return null;
+/**
+ * Record a failed lookup, so scoring knows its data is unknown rather
+ * than absent (a gap in an offline cassette fails the whole tool)
+ */
+function recordFailure(
+  research: ToolResearch,
+  notes: string[],
+  provider: string,
+  label: string,
+  error: unknown,
+): void {
+  if (error instanceof CassetteMissError) throw error;
+  research.errors = [
+    ...(research.errors || []),
+    researchError(provider, error),
+  ];
+  notes.push(`No ${label} data: ${error}`);
 }
 
-function extractNpmPackage(tool: Tool): string | null {
-  const text = `${tool.installCommand || ""} ${tool.description}`;
+/**
+ * Whether the tool names a package on any registry research knows
+ */
+function hasPackage(tool: Tool): boolean {
+  return (
+    !!extractNpmPackage(tool) ||
+    !!extractPypiPackage(tool) ||
+    providersFor(tool).length > 0
+  );
+}
 
-  // Look for npm install commands
-  const npmMatch = text.match(/npm\s+i(?:nstall)?\s+(?:-g\s+)?([^\s]+)/i);
-  if (npmMatch) {
-    return npmMatch[1].replace(/['"]/g, "");
+/**
+ * API hosts researching a tool will call, for the scheduler
+ */
+function researchHosts(tool: Tool, discover: boolean): string[] {
+  const hosts: string[] = [];
+  if (extractGitHubUrl(tool) || discover) hosts.push(new URL(GITHUB_API).host);
+  if (extractNpmPackage(tool) || (discover && !hasPackage(tool))) {
+    hosts.push(new URL(NPM_REGISTRY).host, new URL(NPM_API).host);
+  }
+  if (extractPypiPackage(tool)) {
+    hosts.push(new URL(PYPI_API).host, ...pypiStatsSource().hosts);
   }
+  for (const { provider } of providersFor(tool)) hosts.push(...provider.hosts);
+  return hosts;
+}
+
+function extractGitHubUrl(tool: Tool): string | null {
+  const repo = findLink(tool, "repo", "github.com");
+  if (repo) return repo.url;
 
-  // Look for bun add
-  const bunMatch = text.match(/bun\s+add\s+([^\s]+)/i);
-  if (bunMatch) {
-    return bunMatch[1].replace(/['"]/g, "");
+  // Updates parsed before links were extracted only have githubUrl
+  if (tool.githubUrl && tool.githubUrl.includes("github.com/")) {
+    return tool.githubUrl;
   }
 
   return null;
 }
 
+function extractNpmPackage(tool: Tool): string | null {
+  // Linked npm package page: npmjs.com/package/<name>
+  const registry = findLink(tool, "package-registry", "npmjs.com");
+  const linked = registry?.url.match(/\/package\/((?:@[^/]+\/)?[^/?#]+)/);
+  if (linked?.[1]) return decodeURIComponent(linked[1]);
+
+  // npm, bun, yarn, pnpm or npx install
+  const spec = installSpecsFor(tool).find((s) =>
+    NPM_MANAGERS.includes(s.manager),
+  );
+  return spec?.packageId || null;
+}
+
+function extractPypiPackage(tool: Tool): string | null {
+  // Linked PyPI project page: pypi.org/project/<name>
+  const registry = findLink(tool, "package-registry", "pypi.org");
+  const linked = registry?.url.match(/\/project\/([^/?#]+)/);
+  if (linked?.[1]) return decodeURIComponent(linked[1]);
+
+  // pip, pipx or uv install
+  const spec = installSpecsFor(tool).find((s) =>
+    PYPI_MANAGERS.includes(s.manager),
+  );
+  return spec?.packageId || null;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
 function generateResearchMarkdown(research: ToolResearch): string {
-  const { tool, github, npm } = research;
+  const { tool, github, npm, pypi } = research;
 
   let md = `# ${tool.name}\n\n`;
   md += `> ${tool.description}\n\n`;
 
   md += `## Overview\n\n`;
+  if (tool.id) {
+    md += `- **Tool ID:** ${tool.id}\n`;
+  }
   md += `- **Category:** ${tool.category}\n`;
   md += `- **Source:** ${tool.source || "Unknown"}\n`;
   if (tool.installCommand) {
     md += `- **Install:** \`${tool.installCommand}\`\n`;
   }
+  for (const spec of installSpecsFor(tool)) {
+    md += `- **${spec.manager}:** ${formatSpec(spec)}${spec.global ? " (global)" : ""}\n`;
+  }
+  if (research.date) {
+    md += `- **Snapshot:** ${research.date}\n`;
+  }
   md += `- **Researched:** ${research.researchedAt}\n\n`;
 
+  if (tool.links && tool.links.length > 0) {
+    md += `## Links\n\n`;
+    for (const link of tool.links) {
+      md += `- **${link.kind}:** ${link.url}\n`;
+    }
+    md += `\n`;
+  }
+
+  if (research.discovered && research.discovered.length > 0) {
+    md += `## Found by Search\n\n`;
+    md += `The update links none of these, so they were matched by searching.\n\n`;
+    md += `| Match | Query | Confidence | Name | Description | Owner |\n`;
+    md += `|-------|-------|------------|------|-------------|-------|\n`;
+    for (const match of research.discovered) {
+      md += `| ${match.match}${match.needsConfirmation ? " ⚠️ unconfirmed" : ""} | ${match.query} | ${Math.round(match.confidence * 100)}% | ${Math.round(match.nameSimilarity * 100)}% | ${Math.round(match.descriptionOverlap * 100)}% | ${match.ownerMatch ? "✅" : "❌"} |\n`;
+    }
+    md += `\n`;
+  }
+
   if (github) {
     md += `## GitHub Stats\n\n`;
     md += `| Metric | Value |\n`;
@@ -204,7 +625,49 @@ function generateResearchMarkdown(research: ToolResearch): string {
     md += `| Language | ${github.language} |\n`;
     md += `| License | ${github.license || "None"} |\n`;
     md += `| Has Tests | ${github.hasTests ? "Yes" : "No"} |\n`;
-    md += `| Has CI | ${github.hasCI ? "Yes" : "No"} |\n\n`;
+    md += `| Has CI | ${github.hasCI ? "Yes" : "No"} |\n`;
+    if (github.contributors !== undefined) {
+      md += `| Contributors | ${github.contributors.toLocaleString()} |\n`;
+    }
+    if (github.releases !== undefined) {
+      md += `| Releases | ${github.releases}${github.latestReleaseDate ? ` (latest ${github.latestReleaseDate})` : ""} |\n`;
+    }
+    if (github.commitsLast90Days !== undefined) {
+      md += `| Commits (90 days) | ${github.commitsLast90Days} (${(github.commitsLast90Days / 13).toFixed(1)}/week) |\n`;
+    }
+    if (github.closedIssues !== undefined) {
+      const total = github.openIssues + github.closedIssues;
+      md += `| Issues Closed | ${github.closedIssues} of ${total}${total > 0 ? ` (${Math.round((github.closedIssues / total) * 100)}%)` : ""} |\n`;
+    }
+    if (github.readme !== undefined) {
+      md += `| README | ${wordCount(github.readme).toLocaleString()} words |\n`;
+    }
+    md += `\n`;
+
+    if (github.description) {
+      md += `**Description:** ${github.description}\n\n`;
+    }
+    if (github.topics && github.topics.length > 0) {
+      md += `**Topics:** ${github.topics.join(", ")}\n\n`;
+    }
+
+    const flags = [
+      github.archived && "archived",
+      github.fork && "fork",
+      github.template && "template",
+    ].filter(Boolean);
+    if (flags.length > 0) {
+      md += `**Repo flags:** ${flags.join(", ")}\n\n`;
+    }
+
+    const extensions = [
+      github.hasPluginManifest && "Claude plugin manifest",
+      github.hasMcpConfig && "MCP server config",
+      github.hasSkill && "SKILL.md",
+    ].filter(Boolean);
+    if (extensions.length > 0) {
+      md += `**Ships:** ${extensions.join(", ")}\n\n`;
+    }
   }
 
   if (npm) {
@@ -215,7 +678,108 @@ function generateResearchMarkdown(research: ToolResearch): string {
     md += `| Version | ${npm.version} |\n`;
     md += `| Weekly Downloads | ${npm.weeklyDownloads.toLocaleString()} |\n`;
     md += `| Last Published | ${npm.lastPublished} |\n`;
+    md += `| First Published | ${npm.createdAt || "Unknown"} |\n`;
+    md += `| Maintainers | ${npm.maintainers?.join(", ") || "Unknown"} |\n`;
+    md += `| License | ${npm.license || "None"} |\n`;
     md += `| Dependencies | ${npm.dependencies} |\n\n`;
+
+    const tree = npm.dependencyLicenses;
+    if (tree && tree.checked > 0) {
+      md += `**Dependency licenses** (${tree.checked} packages${tree.complete ? "" : ", partial"}): `;
+      md += Object.entries(tree.licenses)
+        .sort(([, a], [, b]) => b.length - a.length)
+        .map(([license, packages]) => `${license} (${packages.length})`)
+        .join(", ");
+      md += `\n\n`;
+    }
+  }
+
+  if (pypi) {
+    md += `## PyPI Stats\n\n`;
+    md += `| Metric | Value |\n`;
+    md += `|--------|-------|\n`;
+    md += `| Package | ${pypi.packageName} |\n`;
+    md += `| Version | ${pypi.version} |\n`;
+    if (pypi.downloads) {
+      md += `| Weekly Downloads | ${pypi.downloads.lastWeek.toLocaleString()} (${pypi.downloads.source}) |\n`;
+      md += `| Monthly Downloads | ${pypi.downloads.lastMonth.toLocaleString()} |\n`;
+    }
+    md += `| Last Released | ${pypi.lastReleased} |\n`;
+    md += `| First Released | ${pypi.firstReleased || "Unknown"} |\n`;
+    md += `| Releases | ${pypi.releaseCount} |\n`;
+    md += `| Requires Python | ${pypi.requiresPython || "Any"} |\n`;
+    md += `| Dependencies | ${pypi.dependencies} |\n\n`;
+
+    if (pypi.releases.length > 0) {
+      md += `**Recent releases:** `;
+      md += pypi.releases
+        .map((r) => `${r.version} (${r.date.slice(0, 10)})`)
+        .join(", ");
+      md += `\n\n`;
+    }
+
+    const urls = Object.entries(pypi.projectUrls);
+    if (urls.length > 0) {
+      md += `**Project URLs:**\n\n`;
+      for (const [label, url] of urls) md += `- ${label}: ${url}\n`;
+      md += `\n`;
+    }
+
+    if (pypi.classifiers.length > 0) {
+      md += `**Classifiers:**\n\n`;
+      for (const classifier of pypi.classifiers) md += `- ${classifier}\n`;
+      md += `\n`;
+    }
+  }
+
+  const trend = formatVelocity(research.velocity);
+  if (trend) {
+    md += `## Trend\n\n`;
+    md += `${trend} (from ${research.velocity?.points} research runs since ${research.velocity?.since?.slice(0, 10)})\n\n`;
+  }
+
+  for (const pkg of research.registries || []) {
+    md += `## ${registryLabel(pkg.registry)} Stats\n\n`;
+    md += `| Metric | Value |\n`;
+    md += `|--------|-------|\n`;
+    md += `| Package | [${pkg.packageName}](${pkg.url}) |\n`;
+    md += `| Version | ${pkg.version} |\n`;
+    md += `| Last Released | ${pkg.lastReleased} |\n`;
+    if (pkg.popularity) {
+      md += `| Popularity | ${pkg.popularity.value.toLocaleString()} ${pkg.popularity.metric} (~${pkg.popularity.weekly.toLocaleString()}/week) |\n`;
+    }
+    if (pkg.dependencies !== undefined) {
+      md += `| Dependencies | ${pkg.dependencies} |\n`;
+    }
+    md += `\n`;
+  }
+
+  if (research.errors?.length) {
+    md += `## Research Errors\n\n`;
+    md += `| Provider | Kind | Message | At |\n`;
+    md += `|----------|------|---------|----|\n`;
+    for (const error of research.errors) {
+      md += `| ${error.provider} | ${error.kind} | ${error.message.replace(/\|/g, "\\|")} | ${error.at} |\n`;
+    }
+    md += `\n`;
+  }
+
+  const { security } = research;
+  if (security) {
+    md += `## Supply-Chain Risk\n\n`;
+    if (security.findings.length === 0) {
+      md += `No risks found.\n\n`;
+    } else {
+      md += `| Severity | Package | Finding |\n`;
+      md += `|----------|---------|---------|\n`;
+      for (const finding of security.findings) {
+        md += `| ${finding.severity} | ${finding.registry}: ${finding.packageName} | ${finding.message.replace(/\|/g, "\\|")} |\n`;
+      }
+      md += `\n`;
+    }
+    md += security.advisoryDatabase
+      ? `Advisories checked against ${security.advisoryDatabase}.\n\n`
+      : `No advisory database was loaded (see \`--osv\`).\n\n`;
   }
 
   return md;
@@ -4,21 +4,50 @@
 
 import chalk from "chalk";
 import ora from "ora";
-import { readFile, writeFile, readdir, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import type {
+  DailyUpdate,
   ToolResearch,
   ToolScore,
+  LicensePolicy,
   Recommendation,
-  ScoringConfig,
-  DEFAULT_SCORING_CONFIG,
+  ScoreDimension,
+  SecuritySeverity,
+  ToolCategory,
 } from "../models/types";
-
-const DATA_DIR = join(import.meta.dir, "../../data");
+import { taskDataDir } from "../services/tasks";
+import { loadSnapshot } from "../services/snapshots";
+import { registryLabel } from "../services/providers";
+import { describeErrors, retryableErrors } from "../services/failures";
+import {
+  checkLicenses,
+  licenseLabel,
+  loadLicensePolicy,
+} from "../services/license";
+import { replayedAt } from "../services/cassette";
+
+// Categories that extend Claude itself
+const CLAUDE_EXTENSION_CATEGORIES: ToolCategory[] = [
+  "claude-plugin",
+  "claude-skill",
+  "mcp-server",
+  "claude-hook",
+  "slash-command",
+  "subagent",
+];
+
+// Quality points each supply-chain finding costs, by severity
+const SECURITY_PENALTIES: Record<SecuritySeverity, number> = {
+  high: 15,
+  medium: 5,
+  low: 2,
+};
 
 interface ScoreOptions {
   date: string;
+  task?: string;
 }
 
 export async function scoreCommand(options: ScoreOptions): Promise<void> {
@@ -26,40 +55,55 @@ export async function scoreCommand(options: ScoreOptions): Promise<void> {
 
   try {
     const { date } = options;
-    const toolsDir = join(DATA_DIR, "tools");
-    const scoresDir = join(DATA_DIR, "scores");
+    const dataDir = await taskDataDir(options.task);
+    const parsedPath = join(dataDir, "updates", `${date}.json`);
+    const scoresDir = join(dataDir, "scores");
 
-    if (!existsSync(toolsDir)) {
-      spinner.fail("No researched tools found");
-      console.log(chalk.yellow(`  Run 'bun run research' first`));
+    if (!existsSync(parsedPath)) {
+      spinner.fail(`No parsed update found for ${date}`);
+      console.log(chalk.yellow(`  Run 'bun run parse' first`));
       return;
     }
 
-    // Find all tool research JSON files
-    const files = await readdir(toolsDir);
-    const jsonFiles = files.filter((f) => f.endsWith(".json"));
+    // Only the tools in this date's update, from this date's research
+    const dailyUpdate: DailyUpdate = JSON.parse(
+      await readFile(parsedPath, "utf-8"),
+    );
+    const loaded = await Promise.all(
+      dailyUpdate.tools.map(async (tool) => ({
+        tool,
+        snapshot: await loadSnapshot(dataDir, date, tool),
+      })),
+    );
+    const missing = loaded.filter((l) => !l.snapshot).map((l) => l.tool);
 
-    if (jsonFiles.length === 0) {
-      spinner.fail("No tool research data found");
+    if (missing.length === dailyUpdate.tools.length) {
+      spinner.fail(`No research found for ${date}`);
+      console.log(
+        chalk.yellow(`  Run 'bun run research --date ${date}' first`),
+      );
       return;
     }
 
-    spinner.succeed(`Found ${jsonFiles.length} tools to score`);
+    spinner.succeed(
+      `Found ${dailyUpdate.tools.length - missing.length} tools to score`,
+    );
+    for (const tool of missing) {
+      console.log(
+        chalk.yellow(`  ⚠️  ${tool.name} has no research for ${date}`),
+      );
+    }
 
     // Score each tool
+    const policy = await loadLicensePolicy();
     const scores: ToolScore[] = [];
 
-    for (const file of jsonFiles) {
-      const toolSpinner = ora(
-        `Scoring ${file.replace(".json", "")}...`,
-      ).start();
+    for (const { tool, snapshot } of loaded) {
+      if (!snapshot) continue;
+      const toolSpinner = ora(`Scoring ${tool.name}...`).start();
 
       try {
-        const research: ToolResearch = JSON.parse(
-          await readFile(join(toolsDir, file), "utf-8"),
-        );
-
-        const score = scoreTool(research);
+        const score = scoreTool(snapshot.research, policy);
         scores.push(score);
 
         const emoji =
@@ -70,10 +114,15 @@ export async function scoreCommand(options: ScoreOptions): Promise<void> {
               : "⏭️";
 
         toolSpinner.succeed(
-          `${research.tool.name}: ${score.totalScore}/100 ${emoji} ${score.recommendation}`,
+          `${tool.name}: ${score.totalScore}/100 ${emoji} ${score.recommendation}`,
         );
+        if (snapshot.legacy) {
+          console.log(
+            chalk.gray(`    Using undated research from before snapshots`),
+          );
+        }
       } catch (error) {
-        toolSpinner.fail(`Failed to score ${file}`);
+        toolSpinner.fail(`Failed to score ${tool.name}`);
       }
     }
 
@@ -125,7 +174,7 @@ export async function scoreCommand(options: ScoreOptions): Promise<void> {
 /**
  * Score a tool based on research data
  */
-function scoreTool(research: ToolResearch): ToolScore {
+function scoreTool(research: ToolResearch, policy: LicensePolicy): ToolScore {
   const config = {
     weights: { usefulness: 0.3, quality: 0.3, innovation: 0.2, momentum: 0.2 },
     thresholds: { build: 70, watch: 40 },
@@ -145,12 +194,24 @@ function scoreTool(research: ToolResearch): ToolScore {
   // Calculate momentum score (0-100)
   const momentumScore = calculateMomentumScore(research, notes);
 
-  // Weighted total
+  // Weighted total over the dimensions research could actually judge
+  const { unknown: unknownScores, partial: partialScores } = missingData(
+    research,
+    notes,
+  );
+  const dimensions: Record<ScoreDimension, number> = {
+    usefulness: usefulnessScore,
+    quality: qualityScore,
+    innovation: innovationScore,
+    momentum: momentumScore,
+  };
+  const known = (Object.keys(dimensions) as ScoreDimension[]).filter(
+    (d) => !unknownScores.includes(d),
+  );
+  const weight = known.reduce((sum, d) => sum + config.weights[d], 0);
   const totalScore = Math.round(
-    usefulnessScore * config.weights.usefulness +
-      qualityScore * config.weights.quality +
-      innovationScore * config.weights.innovation +
-      momentumScore * config.weights.momentum,
+    known.reduce((sum, d) => sum + dimensions[d] * config.weights[d], 0) /
+      weight,
   );
 
   // Determine recommendation
@@ -163,6 +224,29 @@ function scoreTool(research: ToolResearch): ToolScore {
     recommendation = "SKIP";
   }
 
+  // The team can't adopt a denied license, however good the tool is
+  const license = checkLicenses(research, policy);
+  for (const finding of license.findings) {
+    const where =
+      finding.source === "project"
+        ? finding.license === "none"
+          ? "No license"
+          : `License ${finding.license}`
+        : `${finding.packages.length} ${finding.packages.length === 1 ? "dependency" : "dependencies"} with ${licenseLabel(finding.license)}`;
+    notes.push(
+      `${where}: ${finding.verdict === "deny" ? "denied" : "needs review"} by license policy`,
+    );
+  }
+  if (license.verdict === "deny" && recommendation === "BUILD") {
+    recommendation = "WATCH";
+    notes.push("Capped at WATCH by license policy");
+  }
+  if (!license.complete) {
+    notes.push(
+      `Dependency licenses only partly checked (${license.dependenciesChecked} packages)`,
+    );
+  }
+
   return {
     tool: research.tool,
     research,
@@ -173,10 +257,59 @@ function scoreTool(research: ToolResearch): ToolScore {
     totalScore,
     recommendation,
     notes,
-    scoredAt: new Date().toISOString(),
+    license,
+    unknownScores: unknownScores.length > 0 ? unknownScores : undefined,
+    partialScores: partialScores.length > 0 ? partialScores : undefined,
+    scoredAt: replayedAt() || new Date().toISOString(),
   };
 }
 
+/**
+ * Dimensions a failed lookup (rather than one that found nothing) left
+ * without data. Quality and momentum come from the repo and packages:
+ * with the repo or every package lookup failed, their scores would only
+ * reflect the failure, so they're unknown instead of low. A failure
+ * beside data that did load leaves the dimensions it feeds partial.
+ */
+function missingData(
+  research: ToolResearch,
+  notes: string[],
+): { unknown: ScoreDimension[]; partial: ScoreDimension[] } {
+  const errors = retryableErrors(research);
+  const repoErrors = errors.filter((e) => e.provider.startsWith("github"));
+  const packageErrors = errors.filter((e) => !repoErrors.includes(e));
+
+  const blocking = research.github
+    ? []
+    : repoErrors.length > 0
+      ? repoErrors
+      : packageSignals(research).length === 0
+        ? errors
+        : [];
+  if (blocking.length > 0) {
+    notes.push(
+      `Quality and momentum unknown: ${describeErrors(blocking)} (left out of total)`,
+    );
+    // The repo also shows whether the tool ships a plugin, MCP config or skill
+    if (repoErrors.length > 0) {
+      notes.push(
+        `Usefulness partial: ${describeErrors(repoErrors)} (repo signals unknown)`,
+      );
+      return { unknown: ["quality", "momentum"], partial: ["usefulness"] };
+    }
+    return { unknown: ["quality", "momentum"], partial: [] };
+  }
+
+  // Downloads and releases of the packages that failed to load
+  if (packageErrors.length > 0) {
+    notes.push(
+      `Quality and momentum partial: ${describeErrors(packageErrors)} (package signals unknown)`,
+    );
+    return { unknown: [], partial: ["quality", "momentum"] };
+  }
+  return { unknown: [], partial: [] };
+}
+
 function calculateUsefulnessScore(
   research: ToolResearch,
   notes: string[],
@@ -194,9 +327,9 @@ function calculateUsefulnessScore(
   }
 
   // Boost for CLI/plugin tools (matches user's patterns)
-  if (tool.category === "claude-plugin" || tool.category === "claude-skill") {
+  if (CLAUDE_EXTENSION_CATEGORIES.includes(tool.category)) {
     score += 15;
-    notes.push("Claude plugin/skill (+15)");
+    notes.push(`Claude extension: ${tool.category} (+15)`);
   }
 
   if (tool.category === "cli-tool") {
@@ -210,6 +343,20 @@ function calculateUsefulnessScore(
     notes.push("Has install command (+5)");
   }
 
+  // Ready to load into Claude as-is
+  const { github } = research;
+  const ships = github?.hasPluginManifest
+    ? "Claude plugin manifest"
+    : github?.hasMcpConfig
+      ? "MCP server config"
+      : github?.hasSkill
+        ? "SKILL.md"
+        : undefined;
+  if (ships) {
+    score += 10;
+    notes.push(`Ships ${ships} (+10)`);
+  }
+
   return Math.min(100, Math.max(0, score));
 }
 
@@ -219,7 +366,7 @@ function calculateQualityScore(
 ): number {
   let score = 30; // Base score
 
-  const { github, npm } = research;
+  const { github, pypi } = research;
 
   if (github) {
     // Stars
@@ -251,19 +398,71 @@ function calculateQualityScore(
       score += 5;
       notes.push("Has license (+5)");
     }
+
+    // Docs: a README long enough to explain setup and usage
+    if (github.readme && documentedReadme(github.readme)) {
+      score += 10;
+      notes.push("Documented README (+10)");
+    }
+
+    if (github.releases) {
+      score += 5;
+      notes.push(`Publishes releases: ${github.releases} (+5)`);
+    }
+
+    if (github.contributors !== undefined && github.contributors >= 10) {
+      score += 5;
+      notes.push(`Many contributors: ${github.contributors} (+5)`);
+    }
+
+    // Issue close ratio, once there are enough issues to tell
+    if (github.closedIssues !== undefined) {
+      const total = github.openIssues + github.closedIssues;
+      if (total >= 10 && github.closedIssues / total >= 0.5) {
+        score += 5;
+        notes.push(
+          `Issues get closed: ${Math.round((github.closedIssues / total) * 100)}% (+5)`,
+        );
+      }
+    }
+
+    if (github.archived) {
+      score -= 25;
+      notes.push("Archived repo (-25)");
+    }
   }
 
-  if (npm) {
-    // Downloads
-    if (npm.weeklyDownloads > 10000) {
+  // Package popularity, from whichever registry has the most use
+  const popular = packageSignals(research)
+    .filter((p) => p.weekly !== undefined)
+    .sort((a, b) => (b.weekly || 0) - (a.weekly || 0))[0];
+  if (popular?.weekly !== undefined) {
+    if (popular.weekly > 10000) {
       score += 15;
-      notes.push(`High npm downloads (+15)`);
-    } else if (npm.weeklyDownloads > 1000) {
+      notes.push(`High ${popular.registry} downloads (+15)`);
+    } else if (popular.weekly > 1000) {
       score += 10;
-      notes.push(`Good npm downloads (+10)`);
+      notes.push(`Good ${popular.registry} downloads (+10)`);
+    }
+  }
+
+  if (pypi) {
+    // Declared maturity
+    if (
+      pypi.classifiers.some((c) => /^Development Status :: [56] - /.test(c))
+    ) {
+      score += 5;
+      notes.push("Stable PyPI release (+5)");
     }
   }
 
+  // Supply-chain risks of installing its packages
+  for (const finding of research.security?.findings || []) {
+    const penalty = SECURITY_PENALTIES[finding.severity];
+    score -= penalty;
+    notes.push(`Risk: ${finding.message} (-${penalty})`);
+  }
+
   return Math.min(100, Math.max(0, score));
 }
 
@@ -299,6 +498,11 @@ function calculateInnovationScore(
     notes.push("AI/LLM related (+10)");
   }
 
+  if (research.github?.fork) {
+    score -= 10;
+    notes.push("Fork of another repo (-10)");
+  }
+
   return Math.min(100, Math.max(0, score));
 }
 
@@ -308,13 +512,15 @@ function calculateMomentumScore(
 ): number {
   let score = 40; // Base score
 
-  const { github, npm } = research;
+  // Ages are taken at research time so replaying a snapshot scores the same
+  const researchedAt = new Date(research.researchedAt).getTime();
+  const { github } = research;
 
   if (github) {
     // Recent commits
     const lastCommit = new Date(github.lastCommitDate);
     const daysSinceCommit =
-      (Date.now() - lastCommit.getTime()) / (1000 * 60 * 60 * 24);
+      (researchedAt - lastCommit.getTime()) / (1000 * 60 * 60 * 24);
 
     if (daysSinceCommit < 7) {
       score += 30;
@@ -326,21 +532,105 @@ function calculateMomentumScore(
       score += 10;
       notes.push("Some activity (<90 days) (+10)");
     }
+
+    // Sustained work, not a single push
+    if ((github.commitsLast90Days ?? 0) >= 30) {
+      score += 10;
+      notes.push(
+        `Frequent commits: ${github.commitsLast90Days} in 90 days (+10)`,
+      );
+    }
   }
 
-  if (npm) {
-    // Recent publish
-    const lastPublish = new Date(npm.lastPublished);
+  // Recent publish on any registry
+  const published = packageSignals(research).find((p) => {
     const daysSincePublish =
-      (Date.now() - lastPublish.getTime()) / (1000 * 60 * 60 * 24);
+      (researchedAt - new Date(p.lastReleased).getTime()) /
+      (1000 * 60 * 60 * 24);
+    return daysSincePublish < 30;
+  });
+  if (published) {
+    score += 15;
+    notes.push(`Recently published on ${published.registry} (+15)`);
+  }
 
-    if (daysSincePublish < 30) {
-      score += 15;
-      notes.push("Recently published (+15)");
+  // Growth since earlier research runs
+  const { velocity } = research;
+  if (velocity) {
+    const { stars7d = 0, stars30d = 0, downloadGrowth30d } = velocity;
+    if (stars7d >= 100) {
+      score += 20;
+      notes.push(`Star surge: +${stars7d} stars in 7 days (+20)`);
+    } else if (stars7d >= 20) {
+      score += 10;
+      notes.push(`Gaining stars: +${stars7d} in 7 days (+10)`);
+    } else if (stars30d >= 200) {
+      score += 10;
+      notes.push(`Gaining stars: +${stars30d} in 30 days (+10)`);
+    }
+
+    if (downloadGrowth30d !== undefined) {
+      const pct = Math.round(downloadGrowth30d * 100);
+      if (downloadGrowth30d >= 0.5) {
+        score += 10;
+        notes.push(`Downloads up ${pct}% in 30 days (+10)`);
+      } else if (downloadGrowth30d >= 0.2) {
+        score += 5;
+        notes.push(`Downloads up ${pct}% in 30 days (+5)`);
+      } else if (downloadGrowth30d <= -0.3) {
+        score -= 5;
+        notes.push(`Downloads down ${-pct}% in 30 days (-5)`);
+      }
     }
   }
 
   return Math.min(100, Math.max(0, score));
 }
 
+/**
+ * Weekly downloads and last release of every package the tool ships as,
+ * so each registry counts the same way ("unknown" dates never count as recent)
+ */
+function packageSignals(
+  research: ToolResearch,
+): { registry: string; weekly?: number; lastReleased: string }[] {
+  const { npm, pypi, registries = [] } = research;
+  const signals: { registry: string; weekly?: number; lastReleased: string }[] =
+    [];
+
+  if (npm) {
+    signals.push({
+      registry: "npm",
+      weekly: npm.weeklyDownloads,
+      lastReleased: npm.lastPublished,
+    });
+  }
+  if (pypi) {
+    signals.push({
+      registry: "PyPI",
+      weekly: pypi.downloads?.lastWeek,
+      lastReleased: pypi.lastReleased,
+    });
+  }
+  for (const pkg of registries) {
+    signals.push({
+      registry: registryLabel(pkg.registry),
+      weekly: pkg.popularity?.weekly,
+      lastReleased: pkg.lastReleased,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * At least a few hundred words with an install or usage section
+ */
+function documentedReadme(readme: string): boolean {
+  const words = readme.split(/\s+/).filter(Boolean).length;
+  const sections =
+    /^(?:#+|=+|\*\*)\s*(?:install|installation|setup|getting started|usage|quick ?start)\b/im;
+  return words >= 300 && sections.test(readme);
+}
+
 export { scoreTool };
@@ -0,0 +1,232 @@
+/**
+ * Tools command - Inspect and correct the tool registry
+ *
+ * Subcommands:
+ * - list: Registered tools with first/last seen dates and mention counts
+ * - merge: Fold one tool into another (aliases of the same tool)
+ * - split: Move names out of a tool into a new one (different tools)
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import { writeFile } from "fs/promises";
+import type { Tool } from "../models/types";
+import { taskDataDir } from "../services/tasks";
+import { moveSnapshots } from "../services/snapshots";
+import { moveHistory } from "../services/history";
+import {
+  createEntry,
+  findEntry,
+  loadRegistry,
+  mergeEntries,
+  readParsedUpdates,
+  rebuildEntry,
+  registryPath,
+  saveRegistry,
+  slugify,
+} from "../services/registry";
+
+interface ToolsOptions {
+  task?: string;
+}
+
+interface ToolsMergeOptions extends ToolsOptions {
+  from: string;
+  into: string;
+}
+
+interface ToolsSplitOptions extends ToolsOptions {
+  id: string;
+  aliases: string[]; // Names that belong to a different tool
+}
+
+export async function toolsListCommand(options: ToolsOptions): Promise<void> {
+  try {
+    const dataDir = await taskDataDir(options.task);
+    const registry = await loadRegistry(dataDir);
+
+    if (registry.entries.length === 0) {
+      console.log(chalk.yellow("No registered tools"));
+      console.log(chalk.gray("  Tools are registered by 'bun run parse'"));
+      return;
+    }
+
+    console.log(
+      chalk.cyan.bold(`\n🗂  ${registry.entries.length} registered tools\n`),
+    );
+
+    const entries = [...registry.entries].sort(
+      (a, b) => b.lastSeen.localeCompare(a.lastSeen) || b.mentions - a.mentions,
+    );
+    for (const entry of entries) {
+      console.log(
+        chalk.white(`  ${entry.id}`) +
+          chalk.gray(
+            `  ${entry.mentions}× ${entry.firstSeen} → ${entry.lastSeen}`,
+          ),
+      );
+      const others = entry.aliases.filter((a) => a !== entry.name);
+      console.log(
+        chalk.gray(
+          `    ${entry.name}${others.length > 0 ? ` (also: ${others.join(", ")})` : ""}`,
+        ),
+      );
+      for (const id of [...entry.repos, ...entry.packages]) {
+        console.log(chalk.gray(`    ${id}`));
+      }
+    }
+
+    console.log(chalk.gray(`\n  Registry: ${registryPath(dataDir)}`));
+  } catch (error) {
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+export async function toolsMergeCommand(
+  options: ToolsMergeOptions,
+): Promise<void> {
+  const spinner = ora("Loading tool registry...").start();
+
+  try {
+    const dataDir = await taskDataDir(options.task);
+    const registry = await loadRegistry(dataDir);
+
+    const from = findEntry(registry, options.from);
+    const into = findEntry(registry, options.into);
+    if (!from || !into) {
+      spinner.fail(`Tool '${from ? options.into : options.from}' not found`);
+      console.log(chalk.yellow("  Run 'bun run src/index.ts tools list'"));
+      return;
+    }
+    if (from === into) {
+      spinner.fail(`'${options.from}' and '${options.into}' are the same tool`);
+      return;
+    }
+
+    mergeEntries(registry, from, into);
+
+    // Point the merged tool's mentions at the surviving ID
+    const updates = await readParsedUpdates(dataDir);
+    let moved = 0;
+    for (const { path, update } of updates) {
+      const mentions = update.tools.filter((t) => t.id === from.id);
+      if (mentions.length === 0) continue;
+      for (const tool of mentions) tool.id = into.id;
+      moved += mentions.length;
+      await writeFile(path, JSON.stringify(update, null, 2));
+    }
+
+    // Keep existing research unless the surviving tool has its own
+    const conflicts = await moveSnapshots(dataDir, from.id, into.id);
+    await moveHistory(dataDir, from.id, into.id);
+
+    await saveRegistry(dataDir, registry);
+
+    spinner.succeed(`Merged ${from.id} into ${into.id}`);
+    console.log(chalk.gray(`  Aliases: ${into.aliases.join(", ")}`));
+    console.log(
+      chalk.gray(`  Mentions: ${into.mentions} (${moved} tools re-pointed)`),
+    );
+    if (conflicts.length > 0) {
+      console.log(
+        chalk.yellow(
+          `  Research for ${from.id} was kept on ${conflicts.join(", ")}, where ${into.id} has its own`,
+        ),
+      );
+    }
+  } catch (error) {
+    spinner.fail("Failed to merge tools");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+export async function toolsSplitCommand(
+  options: ToolsSplitOptions,
+): Promise<void> {
+  const spinner = ora("Loading tool registry...").start();
+
+  try {
+    const dataDir = await taskDataDir(options.task);
+    const registry = await loadRegistry(dataDir);
+
+    const entry = findEntry(registry, options.id);
+    if (!entry) {
+      spinner.fail(`Tool '${options.id}' not found`);
+      console.log(chalk.yellow("  Run 'bun run src/index.ts tools list'"));
+      return;
+    }
+
+    const moving = options.aliases.map((a) => a.toLowerCase());
+    const unknown = options.aliases.filter(
+      (a) =>
+        !entry.aliases.some((alias) => alias.toLowerCase() === a.toLowerCase()),
+    );
+    if (unknown.length > 0) {
+      spinner.fail(`${entry.id} has no alias ${unknown.join(", ")}`);
+      console.log(chalk.gray(`  Aliases: ${entry.aliases.join(", ")}`));
+      return;
+    }
+    if (entry.aliases.every((a) => moving.includes(a.toLowerCase()))) {
+      spinner.fail("Leave at least one alias on the original tool");
+      return;
+    }
+
+    // Splitting out a merged tool gives it its old ID back
+    const name = options.aliases[0] as string;
+    entry.mergedIds = entry.mergedIds?.filter((id) => id !== slugify(name));
+    const split = createEntry(registry, name);
+
+    // Re-point the moved names, then rebuild both entries from the updates
+    const updates = await readParsedUpdates(dataDir);
+    const kept: { date: string; tool: Tool }[] = [];
+    const moved: { date: string; tool: Tool }[] = [];
+
+    for (const { path, update } of updates) {
+      let changed = false;
+      for (const tool of update.tools) {
+        if (tool.id !== entry.id) continue;
+        if (moving.includes(tool.name.toLowerCase())) {
+          tool.id = split.id;
+          moved.push({ date: update.date, tool });
+          changed = true;
+        } else {
+          kept.push({ date: update.date, tool });
+        }
+      }
+      if (changed) await writeFile(path, JSON.stringify(update, null, 2));
+    }
+
+    if (moved.length === 0) {
+      registry.entries = registry.entries.filter((e) => e !== split);
+      spinner.fail(`No parsed updates mention ${options.aliases.join(", ")}`);
+      return;
+    }
+
+    rebuildEntry(entry, kept);
+    rebuildEntry(split, moved);
+    await saveRegistry(dataDir, registry);
+
+    spinner.succeed(`Split ${split.id} out of ${entry.id}`);
+    for (const e of [entry, split]) {
+      console.log(
+        chalk.gray(
+          `  ${e.id}: ${e.aliases.join(", ")} (${e.mentions} mentions)`,
+        ),
+      );
+    }
+    console.log(
+      chalk.yellow(
+        `  Run 'bun run research --date ${split.lastSeen} --tool ${split.id}' to research the new tool`,
+      ),
+    );
+  } catch (error) {
+    spinner.fail("Failed to split tool");
+    console.error(
+      chalk.red(error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
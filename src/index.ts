@@ -8,13 +8,26 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { captureCommand } from "./commands/capture";
+import { captureCommand, captureInspectCommand } from "./commands/capture";
 import { parseCommand } from "./commands/parse";
+import { classifyCommand } from "./commands/classify";
 import { researchCommand } from "./commands/research";
 import { scoreCommand } from "./commands/score";
 import { reportCommand } from "./commands/report";
 import { dailyCommand } from "./commands/daily";
 import { buildCommand } from "./commands/build";
+import { doctorCommand } from "./commands/doctor";
+import { historyCommand } from "./commands/history";
+import {
+  toolsListCommand,
+  toolsMergeCommand,
+  toolsSplitCommand,
+} from "./commands/tools";
+import {
+  authStatusCommand,
+  authRefreshCommand,
+  authClearCommand,
+} from "./commands/auth";
 
 const program = new Command();
 
@@ -26,30 +39,180 @@ program
   .version("1.0.0");
 
 // Capture command - get today's update from Grok Tasks
-program
+const capture = program
   .command("capture")
   .description("Capture today's update from Grok Tasks")
   .option("-c, --clipboard", "Capture from clipboard (manual paste)")
+  .option(
+    "-i, --input <path>",
+    "Capture from a file, directory, saved HTML page or RSS/Atom feed",
+  )
+  .option("--stdin", "Capture from piped stdin (no prompt)")
   .option(
     "-l, --login",
     "Open browser for login (saves cookies for automation)",
   )
   .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
+  .option("--from <date>", "Backfill past task runs starting at this date")
+  .option("--to <date>", "Backfill past task runs up to this date")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .option("--all-tasks", "Capture every tracked task")
+  .option(
+    "--browser <path|name>",
+    "Browser executable or name (chromium, chrome, brave, edge, bundled)",
+  )
+  .option("--headful", "Show the browser window while capturing")
   .action(captureCommand);
 
+capture
+  .command("inspect <date>")
+  .description("Show the debug bundle saved by a browser capture")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action((date: string, options: { task?: string }) =>
+    captureInspectCommand({ date, ...options }),
+  );
+
+// Auth commands - manage the saved Grok session
+const auth = program
+  .command("auth")
+  .description("Manage the saved Grok session cookies");
+
+auth
+  .command("status")
+  .description("Show cookie expiry and check the session with Grok Tasks")
+  .option("--no-check", "Skip the test navigation")
+  .option(
+    "--browser <path|name>",
+    "Browser executable or name (chromium, chrome, brave, edge, bundled)",
+  )
+  .action(authStatusCommand);
+
+auth
+  .command("refresh")
+  .description("Log in interactively and save new cookies")
+  .option(
+    "--browser <path|name>",
+    "Browser executable or name (chromium, chrome, brave, edge, bundled)",
+  )
+  .action(authRefreshCommand);
+
+auth
+  .command("clear")
+  .description("Remove saved cookies")
+  .action(authClearCommand);
+
 // Parse command - extract tools from captured update
 program
   .command("parse")
   .description("Parse tools from the latest captured update")
   .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .option(
+    "--check",
+    "Re-parse archived updates and diff against stored expectations",
+  )
+  .option("--accept", "With --check, store current results as expected")
   .action(parseCommand);
 
+// Classify command - re-run the category rules
+program
+  .command("classify")
+  .description("Re-classify parsed tools with config/category-rules.json")
+  .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
+  .option("-e, --explain <tool>", "Show which rules fired for one tool")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action(classifyCommand);
+
+// Tools commands - inspect and correct the tool registry
+const tools = program
+  .command("tools")
+  .description("Inspect and correct the registry of tools seen across days");
+
+tools
+  .command("list")
+  .description("List registered tools with aliases and mention counts")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action(toolsListCommand);
+
+tools
+  .command("merge <from> <into>")
+  .description("Merge a tool into another one (same tool, different names)")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action((from: string, into: string, options: { task?: string }) =>
+    toolsMergeCommand({ from, into, ...options }),
+  );
+
+tools
+  .command("split <id> <aliases...>")
+  .description("Move names that belong to a different tool into a new tool")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action((id: string, aliases: string[], options: { task?: string }) =>
+    toolsSplitCommand({ id, aliases, ...options }),
+  );
+
 // Research command - gather data on each tool
 program
   .command("research")
-  .description("Research all parsed tools (GitHub, npm, web)")
+  .description("Research all parsed tools (GitHub, package registries, web)")
   .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
   .option("-t, --tool <name>", "Research a specific tool only")
+  .option("--no-cache", "Skip the HTTP cache (no reads or writes)")
+  .option("--refresh", "Revalidate every cached HTTP response")
+  .option("-j, --concurrency <n>", "Tools researched at once", Number, 4)
+  .option("--record", "Record API responses to a cassette")
+  .option("--offline", "Replay responses from a cassette only (DTU_OFFLINE=1)")
+  .option("--cassette <name>", "Cassette in data/cassettes/ (default: default)")
+  .option(
+    "--max-wait <minutes>",
+    "Longest pause for a rate limit to reset before giving up",
+    Number,
+    5,
+  )
+  .option(
+    "--pypi-stats <source>",
+    "PyPI download stats source: pypistats or none",
+  )
+  .option(
+    "--contributors",
+    "Count each repo's contributors (one more GitHub request per repo)",
+  )
+  .option(
+    "--osv <path>",
+    "OSV advisory file or directory to check packages against (DTU_OSV_DB)",
+  )
+  .option(
+    "--no-discover",
+    "Don't search GitHub and npm for tools the update links no repo or package for",
+  )
+  .option(
+    "--retry-failed",
+    "Only research tools whose research for the date failed or is incomplete",
+  )
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
   .action(researchCommand);
 
 // Score command - evaluate and rank tools
@@ -57,6 +220,10 @@ program
   .command("score")
   .description("Score all researched tools")
   .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
   .action(scoreCommand);
 
 // Report command - generate daily summary
@@ -64,6 +231,10 @@ program
   .command("report")
   .description("Generate daily summary report")
   .option("-d, --date <date>", "Specify date (YYYY-MM-DD)", getTodayDate())
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
   .action(reportCommand);
 
 // Daily command - full pipeline
@@ -71,13 +242,60 @@ program
   .command("daily")
   .description("Run full pipeline: capture → parse → research → score → report")
   .option("-c, --clipboard", "Capture from clipboard instead of browser")
+  .option(
+    "-i, --input <path>",
+    "Capture from a file, directory, saved HTML page or RSS/Atom feed",
+  )
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .option(
+    "--browser <path|name>",
+    "Browser executable or name (chromium, chrome, brave, edge, bundled)",
+  )
+  .option("--record", "Record API responses to a cassette")
+  .option("--offline", "Replay responses from a cassette only (DTU_OFFLINE=1)")
+  .option("--cassette <name>", "Cassette in data/cassettes/ (default: default)")
   .action(dailyCommand);
 
 // Build command - install and test a tool
 program
   .command("build <tool>")
   .description("Install and test a tool in the sandbox")
-  .action((tool: string) => buildCommand({ tool }));
+  .option(
+    "-d, --date <date>",
+    "Build from the research snapshot of this date (default: newest)",
+  )
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action((tool: string, options: { task?: string; date?: string }) =>
+    buildCommand({ tool, ...options }),
+  );
+
+// History command - star and download trends across research runs
+program
+  .command("history <tool>")
+  .description("Show a tool's stars and downloads over time")
+  .option(
+    "-T, --task <slug>",
+    "Tracked Grok task (default: first in data/tasks.json)",
+  )
+  .action((tool: string, options: { task?: string }) =>
+    historyCommand({ tool, ...options }),
+  );
+
+// Doctor command - check the browser setup
+program
+  .command("doctor")
+  .description("Show which browser will be used and check that it launches")
+  .option(
+    "--browser <path|name>",
+    "Browser executable or name (chromium, chrome, brave, edge, bundled)",
+  )
+  .action(doctorCommand);
 
 // Helper function
 function getTodayDate(): string {
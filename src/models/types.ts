@@ -4,23 +4,90 @@
 export interface Tool {
   name: string;
   slug: string; // lowercase, hyphenated for filenames
+  id?: string; // Canonical ID from the tool registry (stable across days)
   description: string;
   installCommand?: string;
+  installSpecs?: InstallSpec[]; // installCommand, parsed per package manager
   githubUrl?: string; // GitHub repository URL
+  links?: ToolLink[]; // Every link in the tool's block, classified
   source?: string; // @username on X
-  category: ToolCategory;
+  category: ToolCategory; // Primary category
+  tags?: ToolCategory[]; // Secondary categories
   extractedAt: string; // ISO date
 }
 
+export type PackageManager =
+  | "npm"
+  | "bun"
+  | "yarn"
+  | "pnpm"
+  | "npx"
+  | "pip"
+  | "pipx"
+  | "uvx"
+  | "cargo"
+  | "go"
+  | "brew"
+  | "docker"
+  | "git"
+  | "claude-plugin"
+  | "claude-mcp";
+
+/**
+ * One install command, e.g. `npm install -g @scope/pkg@1.2`
+ */
+export interface InstallSpec {
+  manager: PackageManager;
+  packageId: string; // Package, crate, module, formula, image, clone URL or plugin/server name
+  version?: string; // Pinned version, tag or branch
+  global: boolean;
+  raw: string;
+}
+
+export type LinkKind =
+  | "repo"
+  | "package-registry"
+  | "docs"
+  | "homepage"
+  | "social-post"
+  | "marketplace";
+
+export interface ToolLink {
+  kind: LinkKind;
+  url: string;
+  label?: string; // Markdown link text or JSON key, if any
+}
+
 export type ToolCategory =
   | "claude-plugin"
   | "claude-skill"
+  | "mcp-server"
+  | "claude-hook"
+  | "slash-command"
+  | "subagent"
+  | "ide-extension"
+  | "desktop-app"
   | "npm-package"
   | "cli-tool"
   | "library"
   | "framework"
   | "other";
 
+/**
+ * Category rule from config/category-rules.json
+ * Every condition given must match; lists match if any entry does
+ */
+export interface ClassifierRule {
+  id: string;
+  category: ToolCategory;
+  weight?: number; // Added to the category's score when the rule fires (default 1)
+  keywords?: string[]; // Case-insensitive, in name + description
+  regex?: string; // Case-insensitive, against name + description
+  linkKinds?: LinkKind[];
+  linkHosts?: string[];
+  installManagers?: PackageManager[];
+}
+
 /**
  * Research data gathered for a tool
  */
@@ -28,10 +95,86 @@ export interface ToolResearch {
   tool: Tool;
   github?: GitHubData;
   npm?: NpmData;
+  pypi?: PypiData;
+  registries?: RegistryData[]; // crates.io, Homebrew, Docker Hub, Go modules
+  velocity?: MetricsVelocity; // From the metrics history, as of this research
+  discovered?: DiscoveredMatch[]; // Repo/package found by search, not linked
+  security?: SecurityReport; // Supply-chain risks of its npm/PyPI packages
+  errors?: ResearchError[]; // Lookups that failed, so their data is unknown
   webSources: WebSource[];
+  date?: string; // Update date of the snapshot this research belongs to
   researchedAt: string; // ISO date
 }
 
+export type ResearchErrorKind =
+  | "not-found" // The repo or package doesn't exist
+  | "rate-limited"
+  | "network" // Request failed, or the API answered with an error status
+  | "parse"; // The response wasn't what the provider expected
+
+/**
+ * A failed lookup during research
+ */
+export interface ResearchError {
+  provider: string; // "github", "npm", "pypi", a registry, or "<x>-search"
+  kind: ResearchErrorKind;
+  message: string;
+  at: string; // ISO date
+}
+
+/**
+ * A repo or package research found by searching, for a tool with no link to one
+ */
+export interface DiscoveredMatch {
+  kind: "github" | "npm";
+  match: string; // Repo URL or package name
+  query: string;
+  confidence: number; // 0-1
+  nameSimilarity: number; // 0-1
+  descriptionOverlap: number; // 0-1
+  ownerMatch: boolean; // Owner, scope or maintainer is the tool's source handle
+  needsConfirmation: boolean; // Accepted, but a human should check it
+}
+
+export type SecuritySeverity = "low" | "medium" | "high";
+
+export type SecurityFindingKind =
+  | "install-script" // npm lifecycle script runs on install
+  | "sdist-only" // PyPI release without a wheel builds (runs code) on install
+  | "young-package"
+  | "single-maintainer"
+  | "maintainer-change"
+  | "typosquat" // Name close to a popular package's
+  | "advisory"; // Known vulnerability in the OSV database
+
+export interface SecurityFinding {
+  kind: SecurityFindingKind;
+  severity: SecuritySeverity;
+  registry: "npm" | "PyPI";
+  packageName: string;
+  message: string;
+  advisoryId?: string; // OSV/GHSA/CVE ID, for advisories
+}
+
+/**
+ * Supply-chain risks of a tool's packages
+ */
+export interface SecurityReport {
+  findings: SecurityFinding[];
+  advisoryDatabase?: string; // OSV file checked, if one was loaded
+  checkedAt: string; // ISO date
+}
+
+/**
+ * A search result, as discovery ranks it
+ */
+export interface SearchCandidate {
+  id: string; // Repo URL or package name
+  name: string; // Repo name, or package name without its scope
+  description?: string;
+  owners: string[]; // Repo owner; package scope, publisher and maintainers
+}
+
 export interface GitHubData {
   repoUrl: string;
   stars: number;
@@ -43,7 +186,20 @@ export interface GitHubData {
   license?: string;
   hasTests: boolean;
   hasCI: boolean;
-  readme?: string;
+  description?: string;
+  readme?: string; // README text (the description, before deep signals)
+  topics?: string[];
+  archived?: boolean;
+  fork?: boolean;
+  template?: boolean;
+  contributors?: number;
+  releases?: number;
+  latestReleaseDate?: string;
+  commitsLast90Days?: number; // On the default branch
+  closedIssues?: number; // With openIssues, the issue close ratio
+  hasPluginManifest?: boolean; // .claude-plugin/plugin.json or marketplace.json
+  hasMcpConfig?: boolean; // .mcp.json or mcp.json
+  hasSkill?: boolean; // A SKILL.md anywhere in the repo
 }
 
 export interface NpmData {
@@ -51,8 +207,93 @@ export interface NpmData {
   weeklyDownloads: number;
   version: string;
   lastPublished: string;
+  createdAt?: string; // First publish
   dependencies: number;
   devDependencies: number;
+  maintainers?: string[]; // npm usernames
+  maintainersAdded?: { name: string; date: string }[]; // Joined after the first version
+  installScripts?: Record<string, string>; // preinstall/install/postinstall of the latest version
+  license?: string; // SPDX expression from package.json
+  dependencyLicenses?: DependencyLicenses;
+}
+
+/**
+ * Licenses across the latest version's dependency tree
+ */
+export interface DependencyLicenses {
+  licenses: Record<string, string[]>; // License → name@version ("none" for no license)
+  checked: number; // Packages looked up
+  complete: boolean; // false when the tree was cut short or a lookup failed
+}
+
+export interface PypiData {
+  packageName: string;
+  version: string;
+  lastReleased: string;
+  firstReleased?: string;
+  releaseCount: number;
+  releases: { version: string; date: string }[]; // Newest first
+  requiresPython?: string;
+  dependencies: number; // Required, not behind an extra
+  classifiers: string[];
+  projectUrls: Record<string, string>; // Label → URL
+  downloads?: PypiDownloads; // Absent when the stats source has none
+  sdistOnly?: boolean; // Latest release has no wheel, so installing runs its build
+}
+
+export interface PypiDownloads {
+  lastDay: number;
+  lastWeek: number;
+  lastMonth: number;
+  source: string; // Stats source name, e.g. "pypistats"
+}
+
+/**
+ * Counts seen by one research run
+ */
+export interface MetricsPoint {
+  recordedAt: string; // ISO date of the research run
+  date?: string; // Update date it was researched for
+  stars?: number;
+  forks?: number;
+  openIssues?: number;
+  npmDownloads?: number; // Weekly
+  pypiDownloads?: number; // Weekly
+}
+
+export interface MetricsHistory {
+  id: string; // Tool ID
+  points: MetricsPoint[]; // Oldest first
+}
+
+export interface MetricsVelocity {
+  points: number; // History points it was computed from
+  since?: string; // Oldest point
+  stars7d?: number; // Stars gained per 7 days
+  stars30d?: number; // Stars gained per 30 days
+  downloadGrowth7d?: number; // Weekly downloads change, 0.5 = +50%
+  downloadGrowth30d?: number;
+}
+
+export type PackageRegistry = "crates" | "brew" | "docker" | "go";
+
+/**
+ * Package data in the same shape for every registry provider
+ */
+export interface RegistryData {
+  registry: PackageRegistry;
+  packageName: string;
+  url: string; // Package page
+  version: string;
+  lastReleased: string; // ISO date, or "unknown"
+  popularity?: Popularity; // Absent when the registry publishes none
+  dependencies?: number; // Runtime dependencies of the latest version
+}
+
+export interface Popularity {
+  metric: string; // What the value counts, e.g. "installs (30 days)"
+  value: number;
+  weekly: number; // Per-week rate, comparable across registries
 }
 
 export interface WebSource {
@@ -83,11 +324,26 @@ export interface ToolScore {
   // Notes explaining the scores
   notes: string[];
 
+  // License policy verdict for the tool and its npm dependencies
+  license?: LicenseCheck;
+
+  // Dimensions whose data failed to load, left out of the total
+  unknownScores?: ScoreDimension[];
+
+  // Dimensions scored without some of their data (a lookup failed)
+  partialScores?: ScoreDimension[];
+
   scoredAt: string; // ISO date
 }
 
 export type Recommendation = "SKIP" | "WATCH" | "BUILD";
 
+export type ScoreDimension =
+  | "usefulness"
+  | "quality"
+  | "innovation"
+  | "momentum";
+
 /**
  * Daily update from Grok Tasks
  */
@@ -101,6 +357,112 @@ export interface DailyUpdate {
     webPages: number;
   };
   capturedAt: string; // ISO date
+  source?: CaptureInfo; // Which capture source produced the raw content
+  parser?: ParserInfo; // Which tool-list grammar the tools came from
+  diagnostics?: ParseDiagnostic[]; // Problems noticed while parsing
+}
+
+/**
+ * Tool-list formats the parser understands
+ */
+export type ParseGrammar = "headings" | "numbered-list" | "table" | "json";
+
+export interface ParserInfo {
+  grammar: ParseGrammar;
+  confidence: number; // 0-1
+  merged?: ParseGrammar[]; // Runner-up grammars that contributed extra tools
+  candidates: { grammar: ParseGrammar; confidence: number; tools: number }[];
+}
+
+export type ParseDiagnosticKind =
+  | "skipped-line" // Looked like an entry but could not be read
+  | "orphan-metadata" // Install command or link not attached to any tool
+  | "truncated-description"
+  | "no-links" // Tool has no GitHub URL or install command
+  | "dropped-tool" // Found only by a runner-up grammar too unsure to merge
+  | "slug-collision"; // A different tool already owns the slug
+
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  message: string;
+  line?: number; // 1-based line in the raw update
+  tool?: string; // Tool name, when the problem belongs to one
+}
+
+/**
+ * Canonical identity for a tool across days (data/registry.json)
+ */
+export interface RegistryEntry {
+  id: string; // Stable ID, used for data/tools/<id>.json
+  name: string; // Name the tool was first seen under
+  aliases: string[]; // Every name it has appeared under
+  repos: string[]; // Normalized repo URLs (host/owner/repo)
+  packages: string[]; // registry:package-id (npm, pypi, crates, ...)
+  dates: string[]; // Days it was mentioned, YYYY-MM-DD
+  firstSeen: string; // YYYY-MM-DD
+  lastSeen: string; // YYYY-MM-DD
+  mentions: number; // Number of days mentioned
+  mergedIds?: string[]; // IDs folded into this one by `tools merge`
+}
+
+export interface ToolRegistry {
+  entries: RegistryEntry[];
+  updatedAt: string; // ISO date
+}
+
+/**
+ * Where a captured update came from
+ */
+export type CaptureSourceKind =
+  | "browser"
+  | "clipboard"
+  | "stdin"
+  | "file"
+  | "directory"
+  | "html"
+  | "feed";
+
+export interface CaptureInfo {
+  kind: CaptureSourceKind;
+  location?: string; // File path or URL the content was read from
+  capturedAt: string; // ISO date
+}
+
+/**
+ * A Grok task whose runs are captured (configured in data/tasks.json)
+ */
+export interface TrackedTask {
+  name: string; // e.g. "MCP servers weekly"
+  slug: string; // Directory name under data/tasks/
+  match: string; // Text identifying the task in the Grok Tasks list
+}
+
+/**
+ * Debug bundle saved with every browser capture (data/updates/<date>/)
+ */
+export interface CaptureBundle {
+  date: string; // YYYY-MM-DD
+  capturedAt: string; // ISO date
+  status: "captured" | "login-required" | "no-content" | "error";
+  requestedUrl: string;
+  finalUrl: string;
+  pageTitle: string;
+  selectors: string[]; // Content selectors tried, in order
+  matchedSelector?: string; // Undefined when falling back to the whole page
+  contentLength?: number;
+  error?: string;
+  cookies: CookieExpiry[];
+  files: {
+    html: string;
+    screenshot?: string;
+  };
+}
+
+export interface CookieExpiry {
+  name: string;
+  domain: string;
+  session: boolean;
+  expires?: string; // ISO date, absent for session cookies
 }
 
 export interface NewsItem {
@@ -128,6 +490,34 @@ export interface DailyReport {
 /**
  * Config for scoring weights
  */
+export type LicenseVerdict = "allow" | "review" | "deny";
+
+/**
+ * Team license policy (config/license-policy.json). IDs match SPDX IDs
+ * with or without an -only/-or-later suffix, case-insensitively.
+ */
+export interface LicensePolicy {
+  allow: string[];
+  review: string[];
+  deny: string[];
+  unlicensed: LicenseVerdict; // No license at all, or npm's UNLICENSED
+  unknown: LicenseVerdict; // IDs on no list, and GitHub's NOASSERTION
+}
+
+export interface LicenseFinding {
+  license: string; // SPDX ID or expression, or "none"
+  verdict: LicenseVerdict;
+  source: "project" | "dependency";
+  packages: string[]; // Dependencies under it (name@version)
+}
+
+export interface LicenseCheck {
+  verdict: LicenseVerdict; // Strictest of the findings
+  findings: LicenseFinding[]; // Review and deny findings only
+  dependenciesChecked: number;
+  complete: boolean; // false when part of the dependency tree wasn't checked
+}
+
 export interface ScoringConfig {
   weights: {
     usefulness: number; // Default: 0.30
@@ -0,0 +1,160 @@
+/**
+ * Browser discovery - Find a Chromium-based browser for Puppeteer
+ *
+ * Resolution order:
+ * 1. --browser option (a path, or a name like "chrome" or "bundled")
+ * 2. BROWSER_PATH env var
+ * 3. Standard install locations for Chromium, Chrome, Brave and Edge
+ * 4. Puppeteer's bundled browser
+ */
+
+import { existsSync } from "fs";
+import { win32 } from "path";
+
+export type BrowserName = "chromium" | "chrome" | "brave" | "edge";
+
+export interface BrowserCandidate {
+  name: BrowserName;
+  path: string;
+}
+
+export interface ResolvedBrowser {
+  name: BrowserName | "bundled" | "custom";
+  executablePath?: string; // Undefined means Puppeteer's bundled browser
+  source: "option" | "env" | "detected" | "bundled";
+}
+
+const PROGRAM_FILES = process.env["PROGRAMFILES"] || "C:\\Program Files";
+const PROGRAM_FILES_X86 =
+  process.env["PROGRAMFILES(X86)"] || "C:\\Program Files (x86)";
+const LOCAL_APP_DATA = process.env.LOCALAPPDATA || "";
+
+const CANDIDATES: Record<string, BrowserCandidate[]> = {
+  linux: [
+    { name: "chromium", path: "/usr/bin/chromium" },
+    { name: "chromium", path: "/usr/bin/chromium-browser" },
+    { name: "chromium", path: "/snap/bin/chromium" },
+    { name: "chrome", path: "/usr/bin/google-chrome" },
+    { name: "chrome", path: "/usr/bin/google-chrome-stable" },
+    { name: "chrome", path: "/opt/google/chrome/chrome" },
+    { name: "brave", path: "/usr/bin/brave-browser" },
+    { name: "brave", path: "/opt/brave.com/brave/brave" },
+    { name: "brave", path: "/snap/bin/brave" },
+    { name: "edge", path: "/usr/bin/microsoft-edge" },
+    { name: "edge", path: "/usr/bin/microsoft-edge-stable" },
+    { name: "edge", path: "/opt/microsoft/msedge/msedge" },
+  ],
+  darwin: [
+    {
+      name: "brave",
+      path: "/Applications/Brave Browser.app/Contents/MacOS/Brave Browser",
+    },
+    {
+      name: "chrome",
+      path: "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+    },
+    {
+      name: "chromium",
+      path: "/Applications/Chromium.app/Contents/MacOS/Chromium",
+    },
+    {
+      name: "edge",
+      path: "/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge",
+    },
+  ],
+  win32: [
+    {
+      name: "chrome",
+      path: win32.join(
+        PROGRAM_FILES,
+        "Google\\Chrome\\Application\\chrome.exe",
+      ),
+    },
+    {
+      name: "chrome",
+      path: win32.join(
+        LOCAL_APP_DATA,
+        "Google\\Chrome\\Application\\chrome.exe",
+      ),
+    },
+    {
+      name: "brave",
+      path: win32.join(
+        PROGRAM_FILES,
+        "BraveSoftware\\Brave-Browser\\Application\\brave.exe",
+      ),
+    },
+    {
+      name: "edge",
+      path: win32.join(
+        PROGRAM_FILES_X86,
+        "Microsoft\\Edge\\Application\\msedge.exe",
+      ),
+    },
+  ],
+};
+
+const BROWSER_NAMES: BrowserName[] = ["chromium", "chrome", "brave", "edge"];
+
+/**
+ * Standard install locations checked on this platform, in probe order
+ */
+export function browserCandidates(): BrowserCandidate[] {
+  return CANDIDATES[process.platform] || CANDIDATES.linux || [];
+}
+
+/**
+ * Pick the browser executable to launch
+ * @param preference - --browser option: a path, a browser name, or "bundled"
+ */
+export function resolveBrowser(preference?: string): ResolvedBrowser {
+  if (preference) {
+    const wanted = preference.toLowerCase();
+
+    if (wanted === "bundled") {
+      return { name: "bundled", source: "bundled" };
+    }
+
+    if (BROWSER_NAMES.includes(wanted as BrowserName)) {
+      const found = browserCandidates().find(
+        (c) => c.name === wanted && existsSync(c.path),
+      );
+      if (!found) {
+        throw new Error(`No ${wanted} installation found`);
+      }
+      return { name: found.name, executablePath: found.path, source: "option" };
+    }
+
+    if (!existsSync(preference)) {
+      throw new Error(`Browser not found: ${preference}`);
+    }
+    return { name: "custom", executablePath: preference, source: "option" };
+  }
+
+  const envPath = process.env.BROWSER_PATH;
+  if (envPath) {
+    if (!existsSync(envPath)) {
+      throw new Error(`BROWSER_PATH does not exist: ${envPath}`);
+    }
+    return { name: "custom", executablePath: envPath, source: "env" };
+  }
+
+  const detected = browserCandidates().find((c) => existsSync(c.path));
+  if (detected) {
+    return {
+      name: detected.name,
+      executablePath: detected.path,
+      source: "detected",
+    };
+  }
+
+  return { name: "bundled", source: "bundled" };
+}
+
+/**
+ * Human-readable description of a resolved browser
+ */
+export function describeBrowser(browser: ResolvedBrowser): string {
+  const location = browser.executablePath || "Puppeteer bundled browser";
+  return `${browser.name} (${location}) [${browser.source}]`;
+}
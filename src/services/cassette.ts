@@ -0,0 +1,212 @@
+/**
+ * HTTP cassettes - Record API responses and replay them offline
+ *
+ * In record mode every response the GitHub, npm and PyPI services receive
+ * (from the network or the HTTP cache) is saved to
+ * data/cassettes/<name>.json. In replay mode (DTU_OFFLINE=1 or --offline)
+ * responses come only from that file, so research, score and report run
+ * the same way every time without touching the network. Replays are
+ * dated by the recording, and services pick the request path (GitHub
+ * GraphQL or REST) from what the cassette holds.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+
+export const CASSETTES_DIR = join(import.meta.dir, "../../data/cassettes");
+
+export type CassetteMode = "record" | "replay";
+
+// Response headers the services read, kept in recordings
+const RECORDED_HEADERS = ["content-type", "link", "x-ratelimit-remaining"];
+
+interface Interaction {
+  method: "GET" | "POST";
+  url: string;
+  requestBody?: string; // POST only
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string; // ISO date
+}
+
+interface CassetteFile {
+  interactions: Interaction[];
+}
+
+interface ActiveCassette {
+  name: string;
+  path: string;
+  mode: CassetteMode;
+  interactions: Map<string, Interaction>; // By interactionKey
+}
+
+export interface CassetteOptions {
+  offline?: boolean; // Replay only (also DTU_OFFLINE=1)
+  record?: boolean; // Record responses (also DTU_RECORD=1)
+  cassette?: string; // Cassette name (also DTU_CASSETTE, default "default")
+}
+
+export class CassetteMissError extends Error {
+  constructor(method: string, url: string, cassette: string) {
+    super(
+      `Offline: no recorded response for ${method} ${url} in cassette '${cassette}' (record one with --record)`,
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+let active: ActiveCassette | undefined;
+
+/**
+ * Turn on recording or replay from command options and the environment
+ * @returns the mode in use, or undefined for normal network access
+ */
+export async function setupCassette(
+  options: CassetteOptions,
+): Promise<CassetteMode | undefined> {
+  const offline = options.offline || process.env.DTU_OFFLINE === "1";
+  const record = options.record || process.env.DTU_RECORD === "1";
+  if (offline && record) {
+    throw new Error("Choose either --offline or --record, not both");
+  }
+  if (!offline && !record) return undefined;
+
+  const name = options.cassette || process.env.DTU_CASSETTE || "default";
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid cassette name: ${name}`);
+  }
+
+  const path = join(CASSETTES_DIR, `${name}.json`);
+  if (offline && !existsSync(path)) {
+    throw new Error(
+      `Offline: no cassette at ${path} (record one with --record)`,
+    );
+  }
+
+  // Recording into an existing cassette adds to it
+  const file: CassetteFile = existsSync(path)
+    ? JSON.parse(await readFile(path, "utf-8"))
+    : { interactions: [] };
+
+  active = {
+    name,
+    path,
+    mode: offline ? "replay" : "record",
+    interactions: new Map(
+      file.interactions.map((i) => [interactionKey(i.url, i.requestBody), i]),
+    ),
+  };
+  return active.mode;
+}
+
+export function cassetteMode(): CassetteMode | undefined {
+  return active?.mode;
+}
+
+/**
+ * When the replayed cassette was recorded, so replays date their research
+ * the same way every run
+ * @returns the latest recording time, or undefined when not replaying
+ */
+export function replayedAt(): string | undefined {
+  if (active?.mode !== "replay") return undefined;
+  let latest: string | undefined;
+  for (const { recordedAt } of active.interactions.values()) {
+    if (!latest || recordedAt > latest) latest = recordedAt;
+  }
+  return latest;
+}
+
+/**
+ * Whether the replayed cassette has a response for a URL (and POST body),
+ * or with `anyBody`, any POST to the URL
+ */
+export function replayHas(
+  url: string,
+  body?: string,
+  anyBody = false,
+): boolean {
+  if (active?.mode !== "replay") return false;
+  if (!anyBody) return active.interactions.has(interactionKey(url, body));
+  return [...active.interactions.values()].some(
+    (i) => i.method === "POST" && i.url === url,
+  );
+}
+
+/**
+ * Recorded response for a URL (and POST body)
+ * @throws CassetteMissError when the cassette doesn't have it
+ */
+export function replayResponse(url: string, body?: string): Response {
+  const interaction = active?.interactions.get(interactionKey(url, body));
+  if (!active || !interaction) {
+    throw new CassetteMissError(
+      body === undefined ? "GET" : "POST",
+      url,
+      active?.name || "none",
+    );
+  }
+
+  return new Response(interaction.body, {
+    status: interaction.status,
+    headers: interaction.headers,
+  });
+}
+
+/**
+ * Save a response to the cassette
+ * @returns an unread copy of the response for the caller
+ */
+export async function recordResponse(
+  url: string,
+  response: Response,
+  requestBody?: string,
+): Promise<Response> {
+  const body = await response.text();
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  active?.interactions.set(interactionKey(url, requestBody), {
+    method: requestBody === undefined ? "GET" : "POST",
+    url,
+    requestBody,
+    status: response.status,
+    headers,
+    body,
+    recordedAt: new Date().toISOString(),
+  });
+
+  return new Response(body, { status: response.status, headers });
+}
+
+/**
+ * Write recorded responses to disk (once, after a run, so parallel
+ * requests don't race on the file)
+ * @returns path of the written cassette, if recording
+ */
+export async function saveCassette(): Promise<string | undefined> {
+  if (active?.mode !== "record") return undefined;
+
+  await mkdir(CASSETTES_DIR, { recursive: true });
+  const file: CassetteFile = {
+    interactions: [...active.interactions.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, interaction]) => interaction),
+  };
+  await writeFile(active.path, JSON.stringify(file, null, 2));
+  return active.path;
+}
+
+/**
+ * GETs are keyed by URL; POSTs (GraphQL) by URL and a hash of the body
+ */
+function interactionKey(url: string, body?: string): string {
+  if (body === undefined) return url;
+  return `POST ${url} ${createHash("sha256").update(body).digest("hex")}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Tool classifier - Score categories from editable rules
+ *
+ * Rules live in config/category-rules.json. Each rule that fires adds its
+ * weight to its category; the highest score is the primary category and
+ * other categories at or above the tag threshold become tags.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { ClassifierRule, Tool, ToolCategory } from "../models/types";
+
+export const RULES_PATH = join(
+  import.meta.dir,
+  "../../config/category-rules.json",
+);
+
+export interface ClassifierConfig {
+  tagThreshold: number; // Minimum score for a secondary category
+  rules: ClassifierRule[];
+}
+
+export interface FiredRule {
+  rule: ClassifierRule;
+  matched: string[]; // What each condition matched, for --explain
+}
+
+export interface Classification {
+  category: ToolCategory;
+  tags: ToolCategory[];
+  scores: Partial<Record<ToolCategory, number>>;
+  fired: FiredRule[];
+}
+
+/**
+ * Load and validate the rules file
+ */
+export async function loadClassifierConfig(): Promise<ClassifierConfig> {
+  const config: ClassifierConfig = JSON.parse(
+    await readFile(RULES_PATH, "utf-8"),
+  );
+
+  if (!Array.isArray(config.rules)) {
+    throw new Error(`${RULES_PATH} must have a "rules" array`);
+  }
+  for (const rule of config.rules) {
+    if (!rule.id || !rule.category) {
+      throw new Error(`Rule without an id or category in ${RULES_PATH}`);
+    }
+    if (rule.regex) {
+      try {
+        new RegExp(rule.regex, "i");
+      } catch {
+        throw new Error(`Rule '${rule.id}' has an invalid regex`);
+      }
+    }
+  }
+
+  return { tagThreshold: config.tagThreshold ?? 2, rules: config.rules };
+}
+
+/**
+ * Run every rule against a tool
+ * Ties go to the category whose first rule comes earlier in the file
+ */
+export function classifyTool(
+  tool: Tool,
+  config: ClassifierConfig,
+): Classification {
+  const fired: FiredRule[] = [];
+  const scores: Partial<Record<ToolCategory, number>> = {};
+
+  for (const rule of config.rules) {
+    const matched = matchRule(tool, rule);
+    if (!matched) continue;
+
+    fired.push({ rule, matched });
+    scores[rule.category] = (scores[rule.category] || 0) + (rule.weight ?? 1);
+  }
+
+  // Object keys keep insertion order, so earlier rules win ties
+  const ranked = (Object.entries(scores) as [ToolCategory, number][]).sort(
+    (a, b) => b[1] - a[1],
+  );
+  const category = ranked[0]?.[0] || "other";
+  const tags = ranked
+    .slice(1)
+    .filter(([, score]) => score >= config.tagThreshold)
+    .map(([tag]) => tag);
+
+  return { category, tags, scores, fired };
+}
+
+/**
+ * @returns what each condition matched, or undefined if any condition failed
+ */
+function matchRule(tool: Tool, rule: ClassifierRule): string[] | undefined {
+  const text = `${tool.name} ${tool.description}`.toLowerCase();
+  const matched: string[] = [];
+  let conditions = 0;
+
+  if (rule.keywords) {
+    conditions++;
+    const keyword = rule.keywords.find((k) => text.includes(k.toLowerCase()));
+    if (!keyword) return undefined;
+    matched.push(`keyword "${keyword}"`);
+  }
+
+  if (rule.regex) {
+    conditions++;
+    const match = text.match(new RegExp(rule.regex, "i"));
+    if (!match) return undefined;
+    matched.push(`regex /${rule.regex}/ matched "${match[0]}"`);
+  }
+
+  if (rule.linkKinds) {
+    conditions++;
+    const link = (tool.links || []).find((l) =>
+      rule.linkKinds?.includes(l.kind),
+    );
+    if (!link) return undefined;
+    matched.push(`${link.kind} link ${link.url}`);
+  }
+
+  if (rule.linkHosts) {
+    conditions++;
+    const link = (tool.links || []).find((l) => {
+      const host = new URL(l.url).hostname.replace(/^www\./, "");
+      return rule.linkHosts?.some((h) => host === h || host.endsWith(`.${h}`));
+    });
+    if (!link) return undefined;
+    matched.push(`link ${link.url}`);
+  }
+
+  if (rule.installManagers) {
+    conditions++;
+    const spec = (tool.installSpecs || []).find((s) =>
+      rule.installManagers?.includes(s.manager),
+    );
+    if (!spec) return undefined;
+    matched.push(`${spec.manager} install "${spec.raw}"`);
+  }
+
+  // A rule with no conditions never fires
+  return conditions > 0 ? matched : undefined;
+}
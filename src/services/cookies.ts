@@ -0,0 +1,225 @@
+/**
+ * Cookie store - Saved Grok/X session cookies
+ *
+ * Cookies are encrypted at rest (AES-256-GCM) with a key from DTU_COOKIE_KEY.
+ * Without a key nothing is saved, but captures still run with the cookies
+ * already on disk. Plain JSON files from older versions can still be read
+ * and are encrypted on the next save.
+ */
+
+import { readFile, writeFile, mkdir, rm, chmod } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import type { Cookie, CookieParam } from "puppeteer";
+import type { CookieExpiry } from "../models/types";
+
+const DATA_DIR = join(import.meta.dir, "../../data");
+export const COOKIES_PATH = join(DATA_DIR, ".grok-cookies.json");
+
+// Domains whose cookies make up the Grok session
+export const AUTH_DOMAINS = ["grok.com", "x.com", "twitter.com"];
+
+// Cookies that carry the login itself (others are analytics/bot checks)
+const SESSION_COOKIE_NAMES = ["sso", "sso-rw", "auth_token", "ct0"];
+
+interface EncryptedCookies {
+  version: 1;
+  algorithm: "aes-256-gcm";
+  salt: string; // base64
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64
+}
+
+export interface SessionExpiry {
+  cookies: CookieExpiry[]; // Cookies for AUTH_DOMAINS
+  expiresAt?: string; // ISO date the login is expected to lapse
+  basedOn?: string; // Cookie name the expiry was taken from
+}
+
+/**
+ * Whether cookies can be saved (they are only stored encrypted)
+ */
+export function hasCookieKey(): boolean {
+  return Boolean(process.env.DTU_COOKIE_KEY);
+}
+
+/**
+ * Fail before a login whose cookies could not be saved
+ * @returns the cookie encryption secret
+ */
+export function requireCookieKey(): string {
+  const secret = process.env.DTU_COOKIE_KEY;
+  if (!secret) {
+    throw new Error(
+      "DTU_COOKIE_KEY is not set - refusing to save cookies as plain text",
+    );
+  }
+  return secret;
+}
+
+/**
+ * Whether the saved cookies file is encrypted
+ */
+export async function isEncrypted(): Promise<boolean> {
+  if (!existsSync(COOKIES_PATH)) return false;
+  const stored = JSON.parse(await readFile(COOKIES_PATH, "utf-8"));
+  return !Array.isArray(stored);
+}
+
+/**
+ * Read saved cookies
+ * @returns null if no cookies have been saved
+ */
+export async function readCookies(): Promise<CookieParam[] | null> {
+  if (!existsSync(COOKIES_PATH)) return null;
+
+  const stored = JSON.parse(await readFile(COOKIES_PATH, "utf-8"));
+
+  // Plain JSON from older versions
+  if (Array.isArray(stored)) return stored;
+
+  const secret = process.env.DTU_COOKIE_KEY;
+  if (!secret) {
+    throw new Error("Saved cookies are encrypted. Set DTU_COOKIE_KEY env var.");
+  }
+
+  const envelope = stored as EncryptedCookies;
+  const key = scryptSync(secret, Buffer.from(envelope.salt, "base64"), 32);
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(envelope.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+
+  try {
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf-8"));
+  } catch {
+    throw new Error("Could not decrypt saved cookies - wrong DTU_COOKIE_KEY?");
+  }
+}
+
+/**
+ * Save cookies encrypted with DTU_COOKIE_KEY
+ * @throws if DTU_COOKIE_KEY is not set
+ */
+export async function writeCookies(cookies: Cookie[]): Promise<void> {
+  const secret = requireCookieKey();
+  await mkdir(DATA_DIR, { recursive: true });
+
+  const json = JSON.stringify(cookies, null, 2);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    scryptSync(secret, salt, 32),
+    iv,
+  );
+  const data = Buffer.concat([cipher.update(json, "utf-8"), cipher.final()]);
+
+  const envelope: EncryptedCookies = {
+    version: 1,
+    algorithm: "aes-256-gcm",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  await writeFile(COOKIES_PATH, JSON.stringify(envelope, null, 2), {
+    mode: 0o600,
+  });
+  // mode only applies when the file is created - tighten older files too
+  await chmod(COOKIES_PATH, 0o600);
+}
+
+/**
+ * Remove saved cookies
+ * @returns false if there were none
+ */
+export async function clearCookies(): Promise<boolean> {
+  if (!existsSync(COOKIES_PATH)) return false;
+  await rm(COOKIES_PATH);
+  return true;
+}
+
+/**
+ * Summarize cookie expiry for the Grok/X session
+ */
+export function sessionExpiry(
+  cookies: {
+    name: string;
+    domain?: string;
+    expires?: number;
+    session?: boolean;
+  }[],
+): SessionExpiry {
+  const relevant = summarizeCookies(cookies).filter((c) =>
+    AUTH_DOMAINS.some(
+      (domain) =>
+        c.domain.replace(/^\./, "") === domain ||
+        c.domain.endsWith(`.${domain}`),
+    ),
+  );
+  const persistent = relevant.filter((c) => c.expires);
+
+  // Prefer the login cookies; otherwise the longest-lived cookie is the
+  // best guess at how long the session will last
+  const login = persistent
+    .filter((c) => SESSION_COOKIE_NAMES.includes(c.name))
+    .sort((a, b) => (a.expires as string).localeCompare(b.expires as string));
+  const fallback = [...persistent].sort((a, b) =>
+    (b.expires as string).localeCompare(a.expires as string),
+  );
+  const basis = login[0] || fallback[0];
+
+  return {
+    cookies: relevant,
+    expiresAt: basis?.expires,
+    basedOn: basis?.name,
+  };
+}
+
+export function summarizeCookies(
+  cookies: {
+    name: string;
+    domain?: string;
+    expires?: number;
+    session?: boolean;
+  }[],
+): CookieExpiry[] {
+  return cookies.map((cookie) => {
+    // Puppeteer reports session cookies with expires = -1
+    const session =
+      cookie.session ?? (cookie.expires === undefined || cookie.expires <= 0);
+    return {
+      name: cookie.name,
+      domain: cookie.domain || "",
+      session,
+      expires:
+        session || cookie.expires === undefined
+          ? undefined
+          : new Date(cookie.expires * 1000).toISOString(),
+    };
+  });
+}
+
+/**
+ * Whole days from now until an ISO date (negative once it has passed)
+ */
+export function daysUntil(isoDate: string): number {
+  return Math.floor(
+    (new Date(isoDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24),
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * crates.io API service - Fetch Rust crate data
+ */
+
+import type { RegistryData } from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import type { RegistryProvider } from "./providers";
+
+// Overridable to point research at a mock server
+export const CRATES_API = process.env.DTU_CRATES_API || "https://crates.io";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const CRATE_TTL = 6 * HOUR;
+
+// crates.io rejects requests without a User-Agent
+const HEADERS = { "User-Agent": "daily-tool-updates" };
+
+// recent_downloads covers the last 90 days
+const RECENT_DAYS = 90;
+
+// The fields research reads from /api/v1/crates/<name>
+interface CrateResponse {
+  crate?: {
+    name?: string;
+    max_stable_version?: string | null;
+    newest_version?: string;
+    recent_downloads?: number | null;
+    updated_at?: string;
+  };
+  versions?: { num: string; created_at?: string }[];
+}
+
+interface DependenciesResponse {
+  dependencies?: { kind: string; optional: boolean }[];
+}
+
+/**
+ * Fetch crate data
+ * @param crateName - crate name as given to `cargo install`
+ */
+export async function fetchCrateData(crateName: string): Promise<RegistryData> {
+  const name = encodeURIComponent(crateName);
+  const response = await cachedFetch(`${CRATES_API}/api/v1/crates/${name}`, {
+    headers: HEADERS,
+    ttl: CRATE_TTL,
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new NotFoundError(`Crate not found: ${crateName}`);
+    }
+    throw new Error(`crates.io error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as CrateResponse;
+  const crate = data.crate || {};
+  const version = crate.max_stable_version || crate.newest_version || "unknown";
+  const release = (data.versions || []).find((v) => v.num === version);
+
+  // Normal dependencies only (not dev, build or optional ones)
+  let dependencies: number | undefined;
+  if (version !== "unknown") {
+    const depsResponse = await cachedFetch(
+      `${CRATES_API}/api/v1/crates/${name}/${encodeURIComponent(version)}/dependencies`,
+      { headers: HEADERS, ttl: CRATE_TTL },
+    );
+    if (depsResponse.ok) {
+      const deps = (await depsResponse.json()) as DependenciesResponse;
+      dependencies = (deps.dependencies || []).filter(
+        (d) => d.kind === "normal" && !d.optional,
+      ).length;
+    }
+  }
+
+  const recent = crate.recent_downloads || 0;
+  return {
+    registry: "crates",
+    packageName: crate.name || crateName,
+    url: `https://crates.io/crates/${crate.name || crateName}`,
+    version,
+    lastReleased: release?.created_at || crate.updated_at || "unknown",
+    popularity: {
+      metric: "downloads (90 days)",
+      value: recent,
+      weekly: Math.round((recent / RECENT_DAYS) * 7),
+    },
+    dependencies,
+  };
+}
+
+export const cratesProvider: RegistryProvider = {
+  registry: "crates",
+  label: "crates.io",
+  managers: ["cargo"],
+  hosts: [new URL(CRATES_API).host],
+  // `cargo install --git <url>` builds from a repo, not a crate
+  supports: (packageId) => !packageId.includes("/"),
+  fetch: fetchCrateData,
+};
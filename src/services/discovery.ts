@@ -0,0 +1,176 @@
+/**
+ * Discovery - Find a tool's repo or package by search when its update
+ * links none
+ *
+ * Search results are ranked by how close their name is to the tool's, how
+ * many of the tool's description keywords their description shares, and
+ * whether their owner is the tool's source handle. Research only uses a
+ * match above MIN_CONFIDENCE, and flags one below CONFIRM_CONFIDENCE for a
+ * human to check.
+ */
+
+import type { DiscoveredMatch, SearchCandidate, Tool } from "../models/types";
+import { searchGitHubRepo } from "./github";
+import { searchNpmPackage } from "./npm";
+import { editDistance, nameKey } from "./registry";
+
+// Share of each signal in a match's confidence
+const NAME_WEIGHT = 0.6;
+const DESCRIPTION_WEIGHT = 0.25;
+const OWNER_WEIGHT = 0.15;
+
+// Lowest confidence research uses, and lowest it uses without a flag
+export const MIN_CONFIDENCE = 0.6;
+export const CONFIRM_CONFIDENCE = 0.8;
+
+// Description keywords added to the name in searches
+const QUERY_KEYWORDS = 2;
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "that",
+  "this",
+  "your",
+  "you",
+  "from",
+  "into",
+  "are",
+  "can",
+  "its",
+  "use",
+  "uses",
+  "using",
+  "new",
+  "all",
+  "any",
+  "via",
+  "has",
+  "have",
+  "more",
+  "like",
+  "lets",
+  "tool",
+  "tools",
+]);
+
+/**
+ * Best GitHub repo for a tool, by searching its name and description
+ * keywords. GitHub requires every term to match, so when that finds
+ * nothing the name is searched alone.
+ */
+export async function discoverRepo(
+  tool: Tool,
+): Promise<DiscoveredMatch | undefined> {
+  const extra = queryKeywords(tool);
+  if (extra.length > 0) {
+    const query = `${[tool.name, ...extra].join(" ")} in:name,description`;
+    const candidates = await searchGitHubRepo(query);
+    if (candidates.length > 0) {
+      return bestMatch("github", tool, query, candidates);
+    }
+  }
+  const query = `${tool.name} in:name`;
+  return bestMatch("github", tool, query, await searchGitHubRepo(query));
+}
+
+/**
+ * Best npm package for a tool, by searching its name and description
+ * keywords (npm ranks by relevance, so extra words narrow rather than
+ * exclude)
+ */
+export async function discoverPackage(
+  tool: Tool,
+): Promise<DiscoveredMatch | undefined> {
+  const query = [tool.name, ...queryKeywords(tool)].join(" ");
+  return bestMatch("npm", tool, query, await searchNpmPackage(query));
+}
+
+/**
+ * The first description keywords that aren't already in the name
+ */
+function queryKeywords(tool: Tool): string[] {
+  const nameWords = new Set(keywords(tool.name));
+  return [...new Set(keywords(tool.description))]
+    .filter((w) => !nameWords.has(w))
+    .slice(0, QUERY_KEYWORDS);
+}
+
+/**
+ * Highest-confidence candidate (search order breaks ties)
+ */
+function bestMatch(
+  kind: DiscoveredMatch["kind"],
+  tool: Tool,
+  query: string,
+  candidates: SearchCandidate[],
+): DiscoveredMatch | undefined {
+  const handle = tool.source?.replace(/^@/, "").trim().toLowerCase();
+  let best: DiscoveredMatch | undefined;
+
+  for (const candidate of candidates) {
+    const nameSimilarity = similarity(
+      nameKey(tool.name),
+      nameKey(candidate.name),
+    );
+    const descriptionOverlap = overlap(
+      keywords(tool.description),
+      keywords(candidate.description || ""),
+    );
+    const ownerMatch =
+      !!handle && candidate.owners.some((o) => o.toLowerCase() === handle);
+
+    const confidence =
+      NAME_WEIGHT * nameSimilarity +
+      DESCRIPTION_WEIGHT * descriptionOverlap +
+      (ownerMatch ? OWNER_WEIGHT : 0);
+
+    if (!best || confidence > best.confidence) {
+      best = {
+        kind,
+        match: candidate.id,
+        query,
+        confidence: Math.round(confidence * 100) / 100,
+        nameSimilarity: Math.round(nameSimilarity * 100) / 100,
+        descriptionOverlap: Math.round(descriptionOverlap * 100) / 100,
+        ownerMatch,
+        needsConfirmation: confidence < CONFIRM_CONFIDENCE,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 1 for the same name key, less per edit; a key inside the other counts
+ * by how much of it it covers ("memory" in "memorybank" is 0.8)
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  const longer = Math.max(a.length, b.length);
+  const shorter = Math.min(a.length, b.length);
+  const edits = 1 - editDistance(a, b) / longer;
+  const contained = a.includes(b) || b.includes(a);
+  return contained ? Math.max(edits, 0.5 + (0.5 * shorter) / longer) : edits;
+}
+
+/**
+ * Share of the smaller keyword set found in the other
+ */
+function overlap(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const shared = [...setA].filter((w) => setB.has(w)).length;
+  return shared / Math.min(setA.size, setB.size);
+}
+
+function keywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
+}
@@ -0,0 +1,107 @@
+/**
+ * Docker Hub API service - Fetch image repository data
+ */
+
+import type { RegistryData } from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import type { RegistryProvider } from "./providers";
+
+// Overridable to point research at a mock server
+export const DOCKER_HUB_API =
+  process.env.DTU_DOCKER_HUB_API || "https://hub.docker.com";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const REPO_TTL = 6 * HOUR;
+const TAGS_TTL = 6 * HOUR;
+
+const DAY = 24 * HOUR;
+
+// The fields research reads from /v2/repositories/<repo>/
+interface RepositoryResponse {
+  pull_count?: number;
+  date_registered?: string;
+  last_updated?: string | null;
+}
+
+interface TagsResponse {
+  results?: { name: string }[];
+}
+
+/**
+ * Fetch Docker Hub repository data
+ * @param image - image name as given to `docker pull` (no tag)
+ */
+export async function fetchDockerHubData(image: string): Promise<RegistryData> {
+  const repo = hubRepo(image);
+  const response = await cachedFetch(
+    `${DOCKER_HUB_API}/v2/repositories/${repo}/`,
+    { ttl: REPO_TTL },
+  );
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new NotFoundError(`Image not found: ${image}`);
+    }
+    throw new Error(`Docker Hub error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as RepositoryResponse;
+
+  // Newest tag other than "latest" names the version
+  let version = "latest";
+  const tagsResponse = await cachedFetch(
+    `${DOCKER_HUB_API}/v2/repositories/${repo}/tags?page_size=10&ordering=last_updated`,
+    { ttl: TAGS_TTL },
+  );
+  if (tagsResponse.ok) {
+    const tags = (await tagsResponse.json()) as TagsResponse;
+    const named = (tags.results || []).find((t) => t.name !== "latest");
+    if (named) version = named.name;
+  }
+
+  // Pull counts are all-time, so spread them over the repo's age
+  const pulls = data.pull_count || 0;
+  const registered = Date.parse(data.date_registered || "");
+  const ageDays = isNaN(registered) ? 0 : (Date.now() - registered) / DAY;
+
+  return {
+    registry: "docker",
+    packageName: repo,
+    url: repo.startsWith("library/")
+      ? `https://hub.docker.com/_/${repo.slice("library/".length)}`
+      : `https://hub.docker.com/r/${repo}`,
+    version,
+    lastReleased: data.last_updated || "unknown",
+    popularity: {
+      metric: "pulls (all time)",
+      value: pulls,
+      weekly: ageDays > 0 ? Math.round((pulls / ageDays) * 7) : 0,
+    },
+  };
+}
+
+/**
+ * "node" → library/node, "docker.io/acme/app" → acme/app
+ */
+function hubRepo(image: string): string {
+  const path = image.replace(/^(?:docker\.io|index\.docker\.io)\//, "");
+  return path.includes("/") ? path : `library/${path}`;
+}
+
+export const dockerHubProvider: RegistryProvider = {
+  registry: "docker",
+  label: "Docker Hub",
+  managers: ["docker"],
+  hosts: [new URL(DOCKER_HUB_API).host],
+  // Images on other registries (ghcr.io/..., quay.io/...) name a host first
+  supports: (image) => {
+    const first = image.split("/")[0] || "";
+    return (
+      !image.includes("/") ||
+      !/[.:]/.test(first) ||
+      /^(?:index\.)?docker\.io$/.test(first)
+    );
+  },
+  fetch: fetchDockerHubData,
+};
@@ -0,0 +1,74 @@
+/**
+ * Research failures - Why a lookup came back empty
+ *
+ * "Not found" is an answer: the tool has no such repo or package. Rate
+ * limits, network errors and unexpected responses aren't, so the data is
+ * unknown rather than absent, and `research --retry-failed` tries again.
+ */
+
+import type {
+  PackageRegistry,
+  ResearchError,
+  ResearchErrorKind,
+  ToolResearch,
+} from "../models/types";
+import { NotFoundError, RateLimitError } from "./http";
+import { registryLabel } from "./providers";
+import { replayedAt } from "./cassette";
+
+const KIND_LABELS: Record<ResearchErrorKind, string> = {
+  "not-found": "not found",
+  "rate-limited": "rate-limited",
+  network: "network error",
+  parse: "unexpected response",
+};
+
+/**
+ * Classify a failed lookup
+ */
+export function researchError(provider: string, error: unknown): ResearchError {
+  return {
+    provider,
+    kind: errorKind(error),
+    message: error instanceof Error ? error.message : String(error),
+    at: replayedAt() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Failures that leave the research incomplete (everything but not-found)
+ */
+export function retryableErrors(research: ToolResearch): ResearchError[] {
+  return (research.errors || []).filter((e) => e.kind !== "not-found");
+}
+
+/**
+ * "GitHub rate-limited, npm network error"
+ */
+export function describeErrors(errors: ResearchError[]): string {
+  return errors
+    .map((e) => `${providerLabel(e.provider)} ${KIND_LABELS[e.kind]}`)
+    .join(", ");
+}
+
+function providerLabel(provider: string): string {
+  const search = provider.endsWith("-search");
+  const name = provider.replace(/-search$/, "");
+  const label =
+    name === "github"
+      ? "GitHub"
+      : name === "pypi"
+        ? "PyPI"
+        : registryLabel(name as PackageRegistry);
+  return search ? `${label} search` : label;
+}
+
+function errorKind(error: unknown): ResearchErrorKind {
+  if (error instanceof NotFoundError) return "not-found";
+  // http.ts raises this for a 429 or limited 403 that outlasts its retries
+  if (error instanceof RateLimitError) return "rate-limited";
+  if (error instanceof SyntaxError) return "parse";
+  // Bad response shapes surface as TypeErrors; failed connections carry a code
+  if (error instanceof TypeError && !("code" in error)) return "parse";
+  return "network";
+}
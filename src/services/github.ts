@@ -1,113 +1,513 @@
 /**
  * GitHub API service - Fetch repository data
+ *
+ * With GITHUB_TOKEN set, a repo's stats, README, releases, commit activity,
+ * issue counts and Claude extension files come from one GraphQL query.
+ * GraphQL needs a token, so without one the same fields are gathered from
+ * a handful of REST calls (issue counts are left out there: they'd need the
+ * search API, which has its own much smaller rate limit).
+ *
+ * prefetchGitHubData fetches a whole day's repos in a few aliased GraphQL
+ * queries up front; fetchGitHubData then answers from those results.
  */
 
-import type { GitHubData } from "../models/types";
+import type { GitHubData, SearchCandidate } from "../models/types";
+import { NotFoundError, RateLimitError, cachedFetch } from "./http";
+import {
+  CassetteMissError,
+  cassetteMode,
+  recordResponse,
+  replayHas,
+} from "./cassette";
 
-const GITHUB_API = "https://api.github.com";
+// Overridable to point research at a mock server
+export const GITHUB_API =
+  process.env.DTU_GITHUB_API || "https://api.github.com";
+const GRAPHQL_URL = `${GITHUB_API}/graphql`;
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const REPO_TTL = 6 * HOUR;
+const CONTENTS_TTL = 24 * HOUR;
+const SEARCH_TTL = 24 * HOUR;
+
+// Candidates a search returns for discovery to rank
+const SEARCH_RESULTS = 5;
+
+// Window for commit frequency
+const ACTIVITY_DAYS = 90;
+
+// Repos per aliased GraphQL query (each can carry a long README, and
+// GitHub stops a query after 10 seconds)
+const BATCH_SIZE = 10;
+
+// README text kept in research (long READMEs are mostly reference docs)
+const MAX_README_LENGTH = 50_000;
+
+// Files whose names mark a Claude plugin, MCP server or skill
+const PLUGIN_MANIFESTS = ["plugin.json", "marketplace.json"]; // In .claude-plugin/
+const MCP_CONFIGS = [".mcp.json", "mcp.json"];
+const SKILL_DIRS = ["skills", ".claude/skills"]; // <dir>/<skill>/SKILL.md
+
+// Names tried for the README in GraphQL, which can't match case-insensitively
+const README_NAMES = [
+  "README.md",
+  "readme.md",
+  "Readme.md",
+  "README.rst",
+  "README.txt",
+  "README",
+];
+
+// Every field research reads, shared by single and batched queries
+const REPO_FRAGMENTS = `fragment repoFields on Repository {
+  description
+  stargazerCount
+  forkCount
+  createdAt
+  pushedAt
+  isArchived
+  isFork
+  isTemplate
+  primaryLanguage { name }
+  licenseInfo { spdxId }
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  openIssues: issues(states: OPEN) { totalCount }
+  closedIssues: issues(states: CLOSED) { totalCount }
+  releases(first: 1, orderBy: { field: CREATED_AT, direction: DESC }) {
+    totalCount
+    nodes { publishedAt createdAt }
+  }
+  defaultBranchRef {
+    target { ... on Commit { history(since: $since) { totalCount } } }
+  }
+  root: object(expression: "HEAD:") { ...entries }
+  workflows: object(expression: "HEAD:.github/workflows") { ...entries }
+  pluginDir: object(expression: "HEAD:.claude-plugin") { ...entries }
+${SKILL_DIRS.map(
+  (dir, i) =>
+    `  skills${i}: object(expression: "HEAD:${dir}") { ... on Tree { entries { name object { ...entries } } } }`,
+).join("\n")}
+${README_NAMES.map(
+  (name, i) =>
+    `  readme${i}: object(expression: "HEAD:${name}") { ... on Blob { text } }`,
+).join("\n")}
+}
+
+fragment entries on GitObject { ... on Tree { entries { name } } }`;
+
+type TreeEntries = { entries?: { name: string }[] } | null;
+
+// The repoFields fragment as GraphQL returns it (missing objects are null)
+interface GraphQLRepository {
+  description: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  createdAt: string;
+  pushedAt: string;
+  isArchived: boolean;
+  isFork: boolean;
+  isTemplate: boolean;
+  primaryLanguage: { name: string } | null;
+  licenseInfo: { spdxId: string | null } | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  openIssues: { totalCount: number };
+  closedIssues: { totalCount: number };
+  releases: {
+    totalCount: number;
+    nodes: { publishedAt: string | null; createdAt: string }[];
+  };
+  defaultBranchRef: {
+    target: { history?: { totalCount: number } };
+  } | null;
+  root: TreeEntries;
+  workflows: TreeEntries;
+  pluginDir: TreeEntries;
+  [skills: `skills${number}`]: {
+    entries?: { name: string; object: TreeEntries }[];
+  } | null;
+  [readme: `readme${number}`]: { text?: string } | null;
+}
+
+// REST responses, as far as fetchWithRest reads them
+interface RestRepository {
+  default_branch?: string;
+  stargazers_count?: number;
+  forks_count?: number;
+  open_issues_count?: number;
+  pushed_at?: string;
+  updated_at: string;
+  created_at: string;
+  language?: string | null;
+  license?: { spdx_id: string | null } | null;
+  description?: string | null;
+  topics?: string[];
+  archived?: boolean;
+  fork?: boolean;
+  is_template?: boolean;
+}
+
+interface RestTree {
+  tree?: { path: string }[];
+}
+
+interface RestRelease {
+  published_at: string | null;
+  created_at: string;
+}
+
+// One result from the repository search API
+interface SearchItem {
+  html_url: string;
+  name: string;
+  description: string | null;
+  owner: { login: string } | null;
+}
+
+interface GraphQLResponse {
+  data?: Record<string, GraphQLRepository | null> | null;
+  errors?: { type?: string; path?: string[]; message: string }[];
+}
+
+interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+// Files found in a repo, however they were listed
+interface RepoFiles {
+  root: string[]; // Lowercased names at the top level
+  workflows: boolean;
+  pluginManifest: boolean;
+  mcpConfig: boolean;
+  skill: boolean;
+}
+
+// Batch results by repoKey: data, or the error for that repo alone
+const prefetched = new Map<string, GitHubData | Error>();
+
+let activityDate: Date | undefined;
+
+/**
+ * End the commit activity window at an update's date instead of today,
+ * so research for a date (and its recorded requests) stays the same
+ */
+export function setActivityDate(date: string): void {
+  activityDate = new Date(`${date}T00:00:00Z`);
+}
+
+// Contributor counts cost a REST call per repo, even after a GraphQL batch
+let countingContributors = false;
+
+/**
+ * Count contributors (one more core-budget request per repo)
+ */
+export function setCountContributors(on: boolean): void {
+  countingContributors = on;
+}
+
+/**
+ * Fetch many repos up front in aliased GraphQL queries (needs GITHUB_TOKEN,
+ * or on replay a cassette recorded with one)
+ * A repo that fails is recorded for fetchGitHubData to report; a query
+ * that fails leaves its repos to be fetched one by one
+ * @returns undefined without a token, when research falls back to REST
+ */
+export async function prefetchGitHubData(repoUrls: string[]): Promise<
+  | {
+      repos: number;
+      queries: number;
+      failed: { repo: string; error: Error }[];
+      skipped: number; // Repos in queries that failed
+    }
+  | undefined
+> {
+  const headers = apiHeaders();
+  const graphql =
+    cassetteMode() === "replay"
+      ? replayHas(GRAPHQL_URL, undefined, true)
+      : !!headers.Authorization;
+  if (!graphql) return undefined;
+
+  const refs = new Map<string, RepoRef>();
+  for (const url of repoUrls) {
+    const ref = parseRepoUrl(url);
+    if (ref && !prefetched.has(repoKey(ref))) refs.set(repoKey(ref), ref);
+  }
+
+  const repos = [...refs.values()];
+  const summary = {
+    repos: repos.length,
+    queries: 0,
+    failed: [] as { repo: string; error: Error }[],
+    skipped: 0,
+  };
+
+  for (let i = 0; i < repos.length; i += BATCH_SIZE) {
+    const batch = repos.slice(i, i + BATCH_SIZE);
+    summary.queries++;
+    try {
+      const results = await queryRepos(batch, headers);
+      batch.forEach((ref, j) => {
+        const result = results[j];
+        if (!result) return;
+        prefetched.set(repoKey(ref), result);
+        if (result instanceof Error) {
+          summary.failed.push({
+            repo: `${ref.owner}/${ref.repo}`,
+            error: result,
+          });
+        }
+      });
+    } catch {
+      // Including a batch an offline cassette lacks: each repo is then
+      // fetched (or reported missing) on its own
+      summary.skipped += batch.length;
+    }
+  }
+
+  return summary;
+}
 
 /**
  * Fetch GitHub repository data
  * @param repoUrl - Full GitHub URL or owner/repo format
  */
 export async function fetchGitHubData(repoUrl: string): Promise<GitHubData> {
-  // Extract owner/repo from URL
-  const match = repoUrl.match(/github\.com\/([^\/]+\/[^\/\s]+)/i);
-  if (!match) {
+  const ref = parseRepoUrl(repoUrl);
+  if (!ref) {
     throw new Error(`Invalid GitHub URL: ${repoUrl}`);
   }
+  const { owner, repo } = ref;
 
-  const ownerRepo = match[1].replace(/\.git$/, "").replace(/[#?].*$/, "");
-  const [owner, repo] = ownerRepo.split("/");
+  const headers = apiHeaders();
+  const batched = prefetched.get(repoKey(ref));
+  if (batched instanceof Error) throw batched;
+
+  const data = batched
+    ? { ...batched }
+    : useGraphQL(ref, headers)
+      ? await fetchWithGraphQL(ref, headers)
+      : await fetchWithRest(owner, repo, headers);
 
-  if (!owner || !repo) {
-    throw new Error(`Could not parse owner/repo from: ${repoUrl}`);
+  // No GraphQL field counts contributors
+  if (countingContributors) {
+    data.contributors = await countContributors(owner, repo, headers);
   }
+  return data;
+}
 
-  // Fetch repo data
-  const headers: HeadersInit = {
-    Accept: "application/vnd.github.v3+json",
-    "User-Agent": "daily-tool-updates",
-  };
+/**
+ * GraphQL with a token; on replay, whichever way the cassette recorded
+ * the repo, so a recording replays with or without GITHUB_TOKEN
+ */
+function useGraphQL(ref: RepoRef, headers: Record<string, string>): boolean {
+  if (cassetteMode() === "replay") {
+    return replayHas(GRAPHQL_URL, queryBody([ref]));
+  }
+  return !!headers.Authorization;
+}
 
-  // Add auth token if available
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers.Authorization = `token ${token}`;
+/**
+ * Everything but contributors in one GraphQL query
+ */
+async function fetchWithGraphQL(
+  ref: RepoRef,
+  headers: Record<string, string>,
+): Promise<GitHubData> {
+  const [result] = await queryRepos([ref], headers);
+  if (!result || result instanceof Error) {
+    throw (
+      result || new Error("GitHub GraphQL error: no repository in response")
+    );
   }
+  return result;
+}
 
-  const repoResponse = await fetch(`${GITHUB_API}/repos/${owner}/${repo}`, {
+/**
+ * Query repos as aliases (r0, r1, ...) of one GraphQL query
+ * @returns data or an error per repo, in order
+ * @throws when the query as a whole fails
+ */
+async function queryRepos(
+  refs: RepoRef[],
+  headers: Record<string, string>,
+): Promise<(GitHubData | Error)[]> {
+  const response = await cachedFetch(GRAPHQL_URL, {
     headers,
+    body: queryBody(refs),
+    ttl: REPO_TTL,
   });
+  checkResponse(response, "GraphQL endpoint");
 
-  if (!repoResponse.ok) {
-    if (repoResponse.status === 404) {
-      throw new Error(`Repository not found: ${owner}/${repo}`);
-    }
-    if (repoResponse.status === 403) {
-      throw new Error(
-        "GitHub API rate limit exceeded. Set GITHUB_TOKEN env var.",
-      );
-    }
-    throw new Error(`GitHub API error: ${repoResponse.status}`);
+  const { data, errors = [] } = (await response.json()) as GraphQLResponse;
+  if (!data) {
+    throw new Error(
+      `GitHub GraphQL error: ${errors[0]?.message || "no data in response"}`,
+    );
+  }
+  if (cassetteMode() === "record" && refs.length > 1) {
+    await recordPerRepo(refs, data, errors);
   }
 
-  const repoData = await repoResponse.json();
+  return refs.map((ref, i) => {
+    const repository = data[`r${i}`];
+    if (repository) return fromGraphQL(ref, repository);
 
-  // Check for tests and CI (via repo contents)
-  let hasTests = false;
-  let hasCI = false;
+    const error = errors.find((e) => e.path?.[0] === `r${i}`);
+    return error?.type === "NOT_FOUND" || !error
+      ? new NotFoundError(`Repository not found: ${ref.owner}/${ref.repo}`)
+      : new Error(`GitHub GraphQL error: ${error.message}`);
+  });
+}
 
-  try {
-    const contentsResponse = await fetch(
-      `${GITHUB_API}/repos/${owner}/${repo}/contents`,
-      { headers },
-    );
-    if (contentsResponse.ok) {
-      const contents = await contentsResponse.json();
-      const fileNames = contents.map((f: { name: string }) =>
-        f.name.toLowerCase(),
-      );
-
-      // Check for test directories/files
-      hasTests = fileNames.some(
-        (f: string) =>
-          f.includes("test") ||
-          f.includes("spec") ||
-          f === "__tests__" ||
-          f === "tests",
-      );
-
-      // Check for CI config
-      hasCI = fileNames.some(
-        (f: string) =>
-          f === ".github" ||
-          f === ".circleci" ||
-          f === ".travis.yml" ||
-          f === "azure-pipelines.yml",
-      );
-
-      // Also check .github/workflows if .github exists
-      if (fileNames.includes(".github")) {
-        try {
-          const workflowsResponse = await fetch(
-            `${GITHUB_API}/repos/${owner}/${repo}/contents/.github/workflows`,
-            { headers },
-          );
-          if (workflowsResponse.ok) {
-            hasCI = true;
-          }
-        } catch {
-          // Ignore
-        }
-      }
-    }
-  } catch {
-    // Ignore contents fetch errors
+/**
+ * Request body for repos as aliases r0, r1, ...
+ */
+function queryBody(refs: RepoRef[]): string {
+  const aliases = refs
+    .map(
+      (ref, i) =>
+        `  r${i}: repository(owner: ${JSON.stringify(ref.owner)}, name: ${JSON.stringify(ref.repo)}) { ...repoFields }`,
+    )
+    .join("\n");
+  const query = `query ($since: GitTimestamp!) {\n${aliases}\n}\n\n${REPO_FRAGMENTS}`;
+  return JSON.stringify({ query, variables: { since: activitySince() } });
+}
+
+/**
+ * Record each repo of a batch as its own single-repo query too, so a
+ * replay of fewer tools (--tool, --retry-failed) finds them
+ */
+async function recordPerRepo(
+  refs: RepoRef[],
+  data: NonNullable<GraphQLResponse["data"]>,
+  errors: NonNullable<GraphQLResponse["errors"]>,
+): Promise<void> {
+  for (const [i, ref] of refs.entries()) {
+    const alias = `r${i}`;
+    const single: GraphQLResponse = {
+      data: { r0: data[alias] ?? null },
+      errors: errors
+        .filter((e) => e.path?.[0] === alias)
+        .map((e) => ({ ...e, path: ["r0", ...(e.path?.slice(1) || [])] })),
+    };
+    await recordResponse(GRAPHQL_URL, Response.json(single), queryBody([ref]));
   }
+}
+
+/**
+ * GitHubData from one repository in a GraphQL response
+ */
+function fromGraphQL(
+  { owner, repo }: RepoRef,
+  repository: GraphQLRepository,
+): GitHubData {
+  const entryNames = (tree: TreeEntries) =>
+    (tree?.entries || []).map((e) => e.name);
+  const root = entryNames(repository.root);
+  const skillDirs = SKILL_DIRS.map((_, i) => repository[`skills${i}`] || {});
+  const readme = README_NAMES.map((_, i) => repository[`readme${i}`]?.text)
+    .filter((text): text is string => typeof text === "string")
+    .at(0);
+  const release = repository.releases?.nodes?.[0];
 
   return {
-    repoUrl: `https://github.com/${owner}/${repo}`,
+    ...fileSignals(owner, repo, {
+      root: root.map((name) => name.toLowerCase()),
+      workflows: entryNames(repository.workflows).length > 0,
+      pluginManifest: entryNames(repository.pluginDir).some((name) =>
+        PLUGIN_MANIFESTS.includes(name),
+      ),
+      mcpConfig: root.some((name) => MCP_CONFIGS.includes(name)),
+      skill:
+        root.includes("SKILL.md") ||
+        skillDirs.some((dir) =>
+          (dir.entries || []).some((skill) =>
+            entryNames(skill.object).includes("SKILL.md"),
+          ),
+        ),
+    }),
+    stars: repository.stargazerCount || 0,
+    forks: repository.forkCount || 0,
+    openIssues: repository.openIssues?.totalCount || 0,
+    closedIssues: repository.closedIssues?.totalCount || 0,
+    lastCommitDate: repository.pushedAt,
+    createdAt: repository.createdAt,
+    language: repository.primaryLanguage?.name || "Unknown",
+    license: repository.licenseInfo?.spdxId || undefined,
+    description: repository.description || undefined,
+    readme: readme?.slice(0, MAX_README_LENGTH),
+    topics: (repository.repositoryTopics?.nodes || []).map((n) => n.topic.name),
+    archived: repository.isArchived,
+    fork: repository.isFork,
+    template: repository.isTemplate,
+    releases: repository.releases?.totalCount || 0,
+    latestReleaseDate: release?.publishedAt || release?.createdAt,
+    commitsLast90Days:
+      repository.defaultBranchRef?.target?.history?.totalCount ?? undefined,
+  };
+}
+
+/**
+ * The same fields from REST: repo, file tree, README, releases and commits
+ */
+async function fetchWithRest(
+  owner: string,
+  repo: string,
+  headers: Record<string, string>,
+): Promise<GitHubData> {
+  const base = `${GITHUB_API}/repos/${owner}/${repo}`;
+  const repoResponse = await cachedFetch(base, { headers, ttl: REPO_TTL });
+  checkResponse(repoResponse, `${owner}/${repo}`);
+
+  const repoData = (await repoResponse.json()) as RestRepository;
+
+  // One recursive tree listing finds tests, CI and extension files
+  const files = await optional(async () => {
+    const branch = encodeURIComponent(repoData.default_branch || "HEAD");
+    const response = await cachedFetch(
+      `${base}/git/trees/${branch}?recursive=1`,
+      { headers, ttl: CONTENTS_TTL },
+    );
+    if (!response.ok) return undefined;
+
+    const { tree } = (await response.json()) as RestTree;
+    return filesFromPaths((tree || []).map((entry) => entry.path));
+  });
+
+  const readme = await optional(async () => {
+    const response = await cachedFetch(`${base}/readme`, {
+      headers: { ...headers, Accept: "application/vnd.github.raw+json" },
+      ttl: CONTENTS_TTL,
+    });
+    return response.ok ? await response.text() : undefined;
+  });
+
+  const releases = await optional(async () => {
+    const response = await cachedFetch(`${base}/releases?per_page=1`, {
+      headers,
+      ttl: REPO_TTL,
+    });
+    if (!response.ok) return undefined;
+    const items = (await response.json()) as RestRelease[];
+    return {
+      count: pageCount(response, items.length),
+      latest: items[0]?.published_at || items[0]?.created_at,
+    };
+  });
+
+  const commits = await optional(async () => {
+    const response = await cachedFetch(
+      `${base}/commits?since=${activitySince()}&per_page=1`,
+      { headers, ttl: REPO_TTL },
+    );
+    if (!response.ok) return undefined;
+    return pageCount(response, ((await response.json()) as unknown[]).length);
+  });
+
+  return {
+    ...fileSignals(owner, repo, files),
     stars: repoData.stargazers_count || 0,
     forks: repoData.forks_count || 0,
     openIssues: repoData.open_issues_count || 0,
@@ -115,39 +515,209 @@ export async function fetchGitHubData(repoUrl: string): Promise<GitHubData> {
     createdAt: repoData.created_at,
     language: repoData.language || "Unknown",
     license: repoData.license?.spdx_id || undefined,
-    hasTests,
-    hasCI,
-    readme: repoData.description || undefined,
+    description: repoData.description || undefined,
+    readme: readme?.slice(0, MAX_README_LENGTH),
+    topics: repoData.topics || [],
+    archived: repoData.archived,
+    fork: repoData.fork,
+    template: repoData.is_template,
+    releases: releases?.count,
+    latestReleaseDate: releases?.latest,
+    commitsLast90Days: commits,
+  };
+}
+
+/**
+ * Fields derived from the repo's files, with the URL
+ */
+function fileSignals(
+  owner: string,
+  repo: string,
+  files: RepoFiles | undefined,
+): Pick<
+  GitHubData,
+  | "repoUrl"
+  | "hasTests"
+  | "hasCI"
+  | "hasPluginManifest"
+  | "hasMcpConfig"
+  | "hasSkill"
+> {
+  const root = files?.root || [];
+  return {
+    repoUrl: `https://github.com/${owner}/${repo}`,
+    // Test directories/files
+    hasTests: root.some(
+      (f) =>
+        f.includes("test") ||
+        f.includes("spec") ||
+        f === "__tests__" ||
+        f === "tests",
+    ),
+    // CI config
+    hasCI:
+      !!files?.workflows ||
+      root.some(
+        (f) =>
+          f === ".circleci" ||
+          f === ".travis.yml" ||
+          f === "azure-pipelines.yml",
+      ),
+    hasPluginManifest: files?.pluginManifest,
+    hasMcpConfig: files?.mcpConfig,
+    hasSkill: files?.skill,
   };
 }
 
 /**
- * Search for a repository by name
+ * RepoFiles from a recursive tree listing
  */
-export async function searchGitHubRepo(query: string): Promise<string | null> {
-  const headers: HeadersInit = {
+function filesFromPaths(paths: string[]): RepoFiles {
+  const skillPath = new RegExp(
+    `^(?:(?:${SKILL_DIRS.map((d) => d.replace(".", "\\.")).join("|")})/[^/]+/)?SKILL\\.md$`,
+  );
+  return {
+    root: paths.filter((p) => !p.includes("/")).map((p) => p.toLowerCase()),
+    workflows: paths.some((p) => p.startsWith(".github/workflows/")),
+    pluginManifest: PLUGIN_MANIFESTS.some((name) =>
+      paths.includes(`.claude-plugin/${name}`),
+    ),
+    mcpConfig: MCP_CONFIGS.some((name) => paths.includes(name)),
+    skill: paths.some((p) => skillPath.test(p)),
+  };
+}
+
+/**
+ * Contributor count (anonymous ones included) from the REST pagination
+ */
+async function countContributors(
+  owner: string,
+  repo: string,
+  headers: Record<string, string>,
+): Promise<number | undefined> {
+  return optional(async () => {
+    const response = await cachedFetch(
+      `${GITHUB_API}/repos/${owner}/${repo}/contributors?per_page=1&anon=true`,
+      { headers, ttl: CONTENTS_TTL },
+    );
+    // 204 for an empty repo
+    if (response.status === 204) return 0;
+    if (!response.ok) return undefined;
+    return pageCount(response, ((await response.json()) as unknown[]).length);
+  });
+}
+
+/**
+ * Search for repositories, most starred first
+ * @param query - search terms and qualifiers, e.g. "memory bank in:name"
+ * @throws when the search fails, so it isn't mistaken for no results
+ */
+export async function searchGitHubRepo(
+  query: string,
+  limit = SEARCH_RESULTS,
+): Promise<SearchCandidate[]> {
+  const response = await cachedFetch(
+    `${GITHUB_API}/search/repositories?q=${encodeURIComponent(query)}&sort=stars&per_page=${limit}`,
+    { headers: apiHeaders(), ttl: SEARCH_TTL },
+  );
+
+  if (!response.ok) {
+    throw new Error(`GitHub search error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { items?: SearchItem[] };
+  return (data.items || []).map((item): SearchCandidate => ({
+    id: item.html_url,
+    name: item.name,
+    description: item.description || undefined,
+    owners: item.owner ? [item.owner.login] : [],
+  }));
+}
+
+function apiHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
     Accept: "application/vnd.github.v3+json",
     "User-Agent": "daily-tool-updates",
   };
 
+  // Add auth token if available
   const token = process.env.GITHUB_TOKEN;
   if (token) {
     headers.Authorization = `token ${token}`;
   }
+  return headers;
+}
 
-  const response = await fetch(
-    `${GITHUB_API}/search/repositories?q=${encodeURIComponent(query)}&sort=stars&per_page=1`,
-    { headers },
-  );
+/**
+ * @param target - what a 404 means wasn't found
+ */
+function checkResponse(response: Response, target: string): void {
+  if (response.ok) return;
 
-  if (!response.ok) {
-    return null;
+  if (response.status === 404) {
+    throw new NotFoundError(`Repository not found: ${target}`);
+  }
+  if (
+    response.status === 403 &&
+    response.headers.get("x-ratelimit-remaining") === "0"
+  ) {
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+    throw new RateLimitError(
+      new URL(GITHUB_API).host,
+      new Date(reset ? reset * 1000 : Date.now()),
+    );
   }
+  throw new Error(`GitHub API error: ${response.status}`);
+}
 
-  const data = await response.json();
-  if (data.items && data.items.length > 0) {
-    return data.items[0].html_url;
+/**
+ * Run a lookup whose failure leaves its fields unknown, except a gap in an
+ * offline cassette
+ */
+async function optional<T>(
+  lookup: () => Promise<T | undefined>,
+): Promise<T | undefined> {
+  try {
+    return await lookup();
+  } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
+    return undefined;
   }
+}
+
+/**
+ * Item count of a per_page=1 listing: the last page number in the Link
+ * header, or the items on the only page
+ */
+function pageCount(response: Response, itemsOnPage: number): number {
+  const last = response.headers
+    .get("link")
+    ?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return last?.[1] ? parseInt(last[1]) : itemsOnPage;
+}
+
+/**
+ * Start of the commit activity window, at day resolution so the request
+ * URL (and its cache entry) stays the same all day
+ */
+function activitySince(): string {
+  const end = activityDate?.getTime() ?? Date.now();
+  const since = new Date(end - ACTIVITY_DAYS * 24 * HOUR);
+  return `${since.toISOString().slice(0, 10)}T00:00:00Z`;
+}
+
+/**
+ * owner/repo from a GitHub URL, or undefined when it has none
+ */
+function parseRepoUrl(repoUrl: string): RepoRef | undefined {
+  const match = repoUrl.match(/github\.com\/([^\/]+\/[^\/\s]+)/i);
+  if (!match?.[1]) return undefined;
+
+  const ownerRepo = match[1].replace(/\.git$/, "").replace(/[#?].*$/, "");
+  const [owner, repo] = ownerRepo.split("/");
+  return owner && repo ? { owner, repo } : undefined;
+}
 
-  return null;
+function repoKey({ owner, repo }: RepoRef): string {
+  return `${owner}/${repo}`.toLowerCase();
 }
@@ -0,0 +1,101 @@
+/**
+ * Go module proxy service - Fetch Go module data
+ */
+
+import type { RegistryData } from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import type { RegistryProvider } from "./providers";
+
+// Overridable to point research at a mock server
+export const GO_PROXY = process.env.DTU_GO_PROXY || "https://proxy.golang.org";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const LATEST_TTL = 6 * HOUR;
+const MOD_TTL = 30 * 24 * HOUR; // A published go.mod never changes
+
+// /@latest: the newest version and when it was published
+interface LatestResponse {
+  Version?: string;
+  Time?: string;
+}
+
+/**
+ * Fetch the latest version of the module providing a package
+ * @param packagePath - package path as given to `go install`, which may
+ *   be a command inside the module (github.com/acme/tool/cmd/tool)
+ */
+export async function fetchGoModuleData(
+  packagePath: string,
+): Promise<RegistryData> {
+  // The module is the longest prefix of the path the proxy knows
+  const parts = packagePath.split("/");
+  for (let length = parts.length; length >= 2; length--) {
+    const module = parts.slice(0, length).join("/");
+    const response = await cachedFetch(
+      `${GO_PROXY}/${escapePath(module)}/@latest`,
+      { ttl: LATEST_TTL },
+    );
+    // 404 and 410 both mean "no such module"
+    if (response.status === 404 || response.status === 410) continue;
+    if (!response.ok) {
+      throw new Error(`Go module proxy error: ${response.status}`);
+    }
+
+    const latest = (await response.json()) as LatestResponse;
+    const version = latest.Version || "unknown";
+
+    return {
+      registry: "go",
+      packageName: module,
+      url: `https://pkg.go.dev/${module}`,
+      version,
+      lastReleased: latest.Time || "unknown",
+      // The proxy publishes no download counts
+      dependencies: await directRequirements(module, version),
+    };
+  }
+
+  throw new NotFoundError(`Module not found: ${packagePath}`);
+}
+
+/**
+ * Direct requirements in the version's go.mod
+ */
+async function directRequirements(
+  module: string,
+  version: string,
+): Promise<number | undefined> {
+  if (version === "unknown") return undefined;
+
+  const response = await cachedFetch(
+    `${GO_PROXY}/${escapePath(module)}/@v/${escapePath(version)}.mod`,
+    { ttl: MOD_TTL },
+  );
+  if (!response.ok) return undefined;
+
+  // Either `require x v1` lines or a `require ( ... )` block
+  const gomod = await response.text();
+  const lines = [
+    ...(gomod.match(/^require\s+[^\s(]+\s+\S+.*$/gm) || []),
+    ...[...gomod.matchAll(/^require\s*\(([^)]*)\)/gm)].flatMap((block) =>
+      (block[1] || "").split("\n").filter((line) => /^\s*\S+\s+v/.test(line)),
+    ),
+  ];
+  return lines.filter((line) => !line.includes("// indirect")).length;
+}
+
+/**
+ * Proxy path escaping: uppercase letters become "!" + lowercase
+ */
+function escapePath(path: string): string {
+  return path.replace(/[A-Z]/g, (c) => `!${c.toLowerCase()}`);
+}
+
+export const goModulesProvider: RegistryProvider = {
+  registry: "go",
+  label: "Go modules",
+  managers: ["go"],
+  hosts: [new URL(GO_PROXY).host],
+  fetch: fetchGoModuleData,
+};
@@ -0,0 +1,285 @@
+/**
+ * Grok Tasks browser service - Page helpers for Puppeteer captures
+ *
+ * The base URL is configurable via GROK_BASE_URL so captures can be run
+ * against a local fixture server that stands in for grok.com.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Browser, Page } from "puppeteer";
+import type { CaptureBundle, TrackedTask } from "../models/types";
+import { htmlToMarkdown } from "./html";
+import {
+  hasCookieKey,
+  readCookies,
+  summarizeCookies,
+  writeCookies,
+} from "./cookies";
+import { resolveBrowser } from "./browser";
+
+const GROK_BASE_URL = (process.env.GROK_BASE_URL || "https://grok.com").replace(
+  /\/$/,
+  "",
+);
+export const GROK_TASKS_URL = `${GROK_BASE_URL}/tasks`;
+
+// Selectors tried in order to find the update content
+export const CONTENT_SELECTORS = [
+  // Task content area
+  '[data-testid="task-content"]',
+  ".task-content",
+  "article",
+  '[role="article"]',
+  // Main content area
+  "main",
+  '[role="main"]',
+  // Fallback to body
+  "body",
+];
+
+// The little of the DOM the page.evaluate callbacks below use. They run
+// in the browser, so the project's (non-DOM) libs don't describe them.
+interface PageElement {
+  innerText?: string;
+  textContent: string | null;
+  innerHTML: string;
+  getAttribute(name: string): string | null;
+  querySelector(selector: string): PageElement | null;
+}
+
+declare const document: {
+  body: PageElement;
+  querySelector(selector: string): PageElement | null;
+  querySelectorAll(selector: string): Iterable<PageElement>;
+};
+
+export interface ExtractedContent {
+  content: string; // Markdown
+  html: string;
+  selector?: string; // Undefined when falling back to the whole page
+}
+
+/**
+ * Launch the browser
+ * @param headless - false for interactive login or --headful debugging
+ * @param preference - --browser option (path or browser name)
+ */
+export async function launchBrowser(
+  headless: boolean,
+  preference?: string,
+): Promise<Browser> {
+  const puppeteer = await import("puppeteer");
+  const { executablePath } = resolveBrowser(preference);
+
+  return puppeteer.default.launch({
+    headless,
+    executablePath,
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+    defaultViewport: headless ? { width: 1280, height: 800 } : null,
+  });
+}
+
+/**
+ * Load saved cookies into the page
+ * @returns false if there were no usable cookies
+ */
+export async function loadCookies(page: Page): Promise<boolean> {
+  const cookies = await readCookies();
+  if (!cookies || cookies.length === 0) return false;
+
+  await page.setCookie(...cookies);
+  return true;
+}
+
+/**
+ * Save the page's cookies for the next run
+ * @returns false when DTU_COOKIE_KEY is not set and nothing was saved
+ */
+export async function saveCookies(page: Page): Promise<boolean> {
+  if (!hasCookieKey()) return false;
+  await writeCookies(await page.cookies());
+  return true;
+}
+
+/**
+ * Navigate to Grok Tasks headlessly with the saved cookies
+ * @returns whether the page stayed authenticated, and where it ended up
+ */
+export async function checkSession(preference?: string): Promise<{
+  authenticated: boolean;
+  finalUrl: string;
+}> {
+  const browser = await launchBrowser(true, preference);
+
+  try {
+    const page = await browser.newPage();
+    await loadCookies(page);
+    await page.goto(GROK_TASKS_URL, {
+      waitUntil: "networkidle2",
+      timeout: 30000,
+    });
+
+    const finalUrl = page.url();
+    return { authenticated: !isLoginUrl(finalUrl), finalUrl };
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Whether the browser was sent to a login or verification page
+ */
+export function isLoginUrl(url: string): boolean {
+  return (
+    url.includes("login") || url.includes("auth") || url.includes("challenge")
+  );
+}
+
+/**
+ * Find the update content on the current page and convert it to Markdown
+ */
+export async function extractTaskContent(
+  page: Page,
+): Promise<ExtractedContent> {
+  const extracted = await page.evaluate((selectors: string[]) => {
+    // Try multiple selectors to find the update content
+    for (const selector of selectors) {
+      const element = document.querySelector(selector);
+      if (element) {
+        // Check visible text, but keep the markup for conversion
+        const text = element.innerText || element.textContent || "";
+        // Only return if it looks like a Claude update
+        if (
+          text.includes("Claude") ||
+          text.includes("Tool") ||
+          text.includes("Daily")
+        ) {
+          return { html: element.innerHTML, selector };
+        }
+      }
+    }
+
+    // Fallback: the whole page
+    return { html: document.body.innerHTML || "", selector: undefined };
+  }, CONTENT_SELECTORS);
+
+  // Convert to Markdown so headings, bold labels and links survive
+  return {
+    content: htmlToMarkdown(extracted.html, { baseUrl: page.url() }),
+    html: extracted.html,
+    selector: extracted.selector,
+  };
+}
+
+/**
+ * Find the link to a tracked task on the Grok Tasks list page
+ */
+export async function findTaskUrl(
+  page: Page,
+  task: TrackedTask,
+): Promise<string | undefined> {
+  const href = await page.evaluate((match: string) => {
+    const needle = match.toLowerCase();
+    for (const link of document.querySelectorAll("a[href]")) {
+      const text = (link.textContent || "").toLowerCase();
+      if (text.includes(needle)) return link.getAttribute("href");
+    }
+    return null;
+  }, task.match);
+
+  return href ? new URL(href, page.url()).toString() : undefined;
+}
+
+/**
+ * List the past runs linked from a task page
+ * @returns map of run date (YYYY-MM-DD) to run URL, first link wins
+ */
+export async function listTaskRuns(page: Page): Promise<Map<string, string>> {
+  const candidates = await page.evaluate(() => {
+    const runs: { href: string; label: string }[] = [];
+    for (const link of document.querySelectorAll("a[href]")) {
+      // Prefer machine-readable dates, then the visible link text
+      const time = link.querySelector("time[datetime]");
+      const label =
+        time?.getAttribute("datetime") ||
+        link.getAttribute("data-date") ||
+        link.textContent ||
+        "";
+      runs.push({ href: link.getAttribute("href") || "", label });
+    }
+    return runs;
+  });
+
+  const runs = new Map<string, string>();
+  for (const { href, label } of candidates) {
+    const date = toRunDate(label);
+    if (date && !runs.has(date)) {
+      runs.set(date, new URL(href, page.url()).toString());
+    }
+  }
+  return runs;
+}
+
+/**
+ * Save page HTML, screenshot and capture metadata to <bundleDir>
+ * so a broken scrape can be diagnosed without re-running the browser
+ */
+export async function saveDebugBundle(
+  page: Page,
+  bundleDir: string,
+  date: string,
+  details: Pick<
+    CaptureBundle,
+    "status" | "requestedUrl" | "matchedSelector" | "contentLength" | "error"
+  >,
+): Promise<string> {
+  await mkdir(bundleDir, { recursive: true });
+
+  await writeFile(join(bundleDir, "page.html"), await page.content());
+
+  let screenshot: string | undefined = "screenshot.png";
+  try {
+    await page.screenshot({
+      path: join(bundleDir, screenshot) as `${string}.png`,
+      fullPage: true,
+    });
+  } catch {
+    screenshot = undefined;
+  }
+
+  const bundle: CaptureBundle = {
+    date,
+    capturedAt: new Date().toISOString(),
+    finalUrl: page.url(),
+    pageTitle: await page.title(),
+    selectors: CONTENT_SELECTORS,
+    ...details,
+    cookies: summarizeCookies(await page.cookies()),
+    files: { html: "page.html", screenshot },
+  };
+
+  await writeFile(
+    join(bundleDir, "bundle.json"),
+    JSON.stringify(bundle, null, 2),
+  );
+  return bundleDir;
+}
+
+function toRunDate(label: string): string | undefined {
+  const iso = label.match(/\b(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+
+  // Human-readable dates like "Sep 1, 2026" (local time, as shown)
+  const human = label.match(
+    /\b([A-Z][a-z]{2,8}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+[A-Z][a-z]{2,8}\.?\s+\d{4})\b/,
+  );
+  if (!human || !human[1]) return undefined;
+
+  const parsed = new Date(human[1].replace(".", ""));
+  if (isNaN(parsed.getTime())) return undefined;
+
+  const month = String(parsed.getMonth() + 1).padStart(2, "0");
+  const day = String(parsed.getDate()).padStart(2, "0");
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
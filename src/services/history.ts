@@ -0,0 +1,232 @@
+/**
+ * Metrics history - Star, fork, issue and download counts over time
+ *
+ * Every research run records the counts it saw in data/history/<id>.json,
+ * one point per update date. Velocity compares the newest counts with the
+ * ones from 7 and 30 days earlier, so a repo gaining stars fast stands out
+ * from one that merely has many.
+ */
+
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type {
+  MetricsHistory,
+  MetricsPoint,
+  MetricsVelocity,
+  ToolResearch,
+} from "../models/types";
+import { researchId } from "./snapshots";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Share of a window the baseline must cover; a shorter history has no
+// velocity for that window rather than an extrapolated one
+const MIN_COVERAGE = 0.8;
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+export function historyPath(dataDir: string, id: string): string {
+  return join(dataDir, "history", `${id}.json`);
+}
+
+export async function loadHistory(
+  dataDir: string,
+  id: string,
+): Promise<MetricsHistory> {
+  const path = historyPath(dataDir, id);
+  if (!existsSync(path)) return { id, points: [] };
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+/**
+ * Record a research run's counts in the tool's history, replacing any
+ * earlier point for the same update date (re-runs, --retry-failed)
+ * @returns the updated history
+ */
+export async function appendMetrics(
+  dataDir: string,
+  research: ToolResearch,
+): Promise<MetricsHistory> {
+  const id = researchId(research.tool);
+  const history = await loadHistory(dataDir, id);
+
+  const point: MetricsPoint = {
+    recordedAt: research.researchedAt,
+    date: research.date,
+    stars: research.github?.stars,
+    forks: research.github?.forks,
+    openIssues: research.github?.openIssues,
+    npmDownloads: research.npm?.weeklyDownloads,
+    pypiDownloads: research.pypi?.downloads?.lastWeek,
+  };
+  history.points = byDate([...history.points, point]);
+
+  await mkdir(join(dataDir, "history"), { recursive: true });
+  await writeFile(historyPath(dataDir, id), JSON.stringify(history, null, 2));
+  return history;
+}
+
+/**
+ * Star gain and download growth over the 7 and 30 days before the newest
+ * point (or `asOf`). A window is left out until the history covers most
+ * of it.
+ */
+export function computeVelocity(
+  history: MetricsHistory,
+  asOf?: string,
+): MetricsVelocity {
+  const points = asOf
+    ? history.points.filter((p) => p.recordedAt <= asOf)
+    : history.points;
+  const velocity: MetricsVelocity = { points: points.length };
+  const latest = points[points.length - 1];
+  if (!latest) return velocity;
+
+  velocity.since = points[0]?.recordedAt;
+  velocity.stars7d = gain(points, latest, 7, (p) => p.stars);
+  velocity.stars30d = gain(points, latest, 30, (p) => p.stars);
+  velocity.downloadGrowth7d = growth(points, latest, 7, downloads);
+  velocity.downloadGrowth30d = growth(points, latest, 30, downloads);
+  return velocity;
+}
+
+/**
+ * Unicode sparkline, e.g. ▁▂▄▇█ (gaps in the series are skipped)
+ */
+export function sparkline(values: (number | undefined)[]): string {
+  const known = values.filter((v): v is number => v !== undefined);
+  if (known.length === 0) return "";
+
+  const min = Math.min(...known);
+  const range = Math.max(...known) - min;
+  return known
+    .map((v) => {
+      const level =
+        range === 0 ? 0 : ((v - min) / range) * (SPARK_CHARS.length - 1);
+      return SPARK_CHARS[Math.round(level)];
+    })
+    .join("");
+}
+
+/**
+ * One-line velocity summary, e.g. "+120 stars in 7 days, downloads +35% in 30 days"
+ */
+export function formatVelocity(velocity?: MetricsVelocity): string {
+  if (!velocity) return "";
+  const parts: string[] = [];
+
+  if (velocity.stars7d !== undefined) {
+    parts.push(`${signed(velocity.stars7d)} stars in 7 days`);
+  }
+  if (velocity.stars30d !== undefined) {
+    parts.push(`${signed(velocity.stars30d)} in 30 days`);
+  }
+  if (velocity.downloadGrowth30d !== undefined) {
+    const pct = Math.round(velocity.downloadGrowth30d * 100);
+    parts.push(`downloads ${signed(pct)}% in 30 days`);
+  }
+  return parts.join(", ");
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : `${n}`;
+}
+
+/**
+ * Weekly package downloads: npm, or PyPI for Python tools
+ */
+export function downloads(point: MetricsPoint): number | undefined {
+  return point.npmDownloads ?? point.pypiDownloads;
+}
+
+/**
+ * Fold one tool's history into another's (after `tools merge`)
+ */
+export async function moveHistory(
+  dataDir: string,
+  fromId: string,
+  intoId: string,
+): Promise<void> {
+  const fromPath = historyPath(dataDir, fromId);
+  if (!existsSync(fromPath)) return;
+
+  const from = await loadHistory(dataDir, fromId);
+  const into = await loadHistory(dataDir, intoId);
+  into.points = byDate([...into.points, ...from.points]);
+  await writeFile(historyPath(dataDir, intoId), JSON.stringify(into, null, 2));
+  await unlink(fromPath);
+}
+
+/**
+ * Points in recording order, keeping the newest one for each update date
+ */
+function byDate(points: MetricsPoint[]): MetricsPoint[] {
+  const latest = new Map<string, MetricsPoint>();
+  const sorted = [...points].sort((a, b) =>
+    a.recordedAt.localeCompare(b.recordedAt),
+  );
+  for (const point of sorted) {
+    latest.set(point.date || point.recordedAt.slice(0, 10), point);
+  }
+  return [...latest.values()].sort((a, b) =>
+    a.recordedAt.localeCompare(b.recordedAt),
+  );
+}
+
+/**
+ * Stars gained over a window before the latest point, scaled to the
+ * window's length when the baseline is a little nearer or further back
+ */
+function gain(
+  points: MetricsPoint[],
+  latest: MetricsPoint,
+  days: number,
+  value: (p: MetricsPoint) => number | undefined,
+): number | undefined {
+  const base = baseline(points, latest, days, value);
+  const now = value(latest);
+  if (!base || now === undefined) return undefined;
+
+  const delta = now - (value(base.point) as number);
+  return Math.round((delta * days) / base.spanDays);
+}
+
+/**
+ * Relative change in weekly downloads over a window (0.5 = up 50%)
+ */
+function growth(
+  points: MetricsPoint[],
+  latest: MetricsPoint,
+  days: number,
+  value: (p: MetricsPoint) => number | undefined,
+): number | undefined {
+  const base = baseline(points, latest, days, value);
+  const now = value(latest);
+  const then = base && value(base.point);
+  if (!base || now === undefined || !then) return undefined;
+
+  const change = (now - then) / then;
+  return (change * days) / base.spanDays;
+}
+
+/**
+ * The newest point at least `days` before the latest one, or else the
+ * oldest point that still covers most of the window
+ */
+function baseline(
+  points: MetricsPoint[],
+  latest: MetricsPoint,
+  days: number,
+  value: (p: MetricsPoint) => number | undefined,
+): { point: MetricsPoint; spanDays: number } | undefined {
+  const end = Date.parse(latest.recordedAt);
+  const spanDays = (p: MetricsPoint) => (end - Date.parse(p.recordedAt)) / DAY;
+  const candidates = points.filter(
+    (p) => value(p) !== undefined && spanDays(p) >= days * MIN_COVERAGE,
+  );
+
+  const point =
+    [...candidates].reverse().find((p) => spanDays(p) >= days) || candidates[0];
+  return point && { point, spanDays: spanDays(point) };
+}
@@ -0,0 +1,95 @@
+/**
+ * Homebrew API service - Fetch formula and cask data
+ */
+
+import type { RegistryData } from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import type { RegistryProvider } from "./providers";
+
+// Overridable to point research at a mock server
+export const HOMEBREW_API =
+  process.env.DTU_HOMEBREW_API || "https://formulae.brew.sh";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const FORMULA_TTL = 24 * HOUR; // The API is regenerated a few times a day
+
+// Install analytics window used for popularity
+const ANALYTICS_DAYS = 30;
+
+type Analytics = { install?: Record<string, Record<string, number>> };
+
+// The fields research reads from a formula's or cask's JSON
+interface HomebrewResponse {
+  name?: string; // Formulae
+  token?: string; // Casks
+  versions?: { stable?: string | null };
+  version?: string;
+  analytics?: Analytics;
+  dependencies?: string[];
+}
+
+/**
+ * Fetch a formula, or the cask of that name when there is no formula
+ * @param name - formula or cask name as given to `brew install`
+ */
+export async function fetchHomebrewData(name: string): Promise<RegistryData> {
+  for (const kind of ["formula", "cask"] as const) {
+    const response = await cachedFetch(
+      `${HOMEBREW_API}/api/${kind}/${encodeURIComponent(name)}.json`,
+      { ttl: FORMULA_TTL },
+    );
+    if (response.status === 404) continue;
+    if (!response.ok) {
+      throw new Error(`Homebrew API error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as HomebrewResponse;
+    const token = data.name || data.token || name;
+    const installs = analyticsCount(data.analytics, token);
+
+    return {
+      registry: "brew",
+      packageName: token,
+      url: `https://formulae.brew.sh/${kind}/${token}`,
+      version: data.versions?.stable || data.version || "unknown",
+      // The API has no release dates
+      lastReleased: "unknown",
+      popularity:
+        installs === undefined
+          ? undefined
+          : {
+              metric: `installs (${ANALYTICS_DAYS} days)`,
+              value: installs,
+              weekly: Math.round((installs / ANALYTICS_DAYS) * 7),
+            },
+      dependencies:
+        kind === "formula" ? (data.dependencies || []).length : undefined,
+    };
+  }
+
+  // Tap formulae (owner/tap/name) aren't in the core API
+  throw new NotFoundError(`Formula not found: ${name}`);
+}
+
+/**
+ * Installs in the analytics window, summed over the formula's option variants
+ */
+function analyticsCount(
+  analytics: Analytics | undefined,
+  token: string,
+): number | undefined {
+  const counts = analytics?.install?.[`${ANALYTICS_DAYS}d`];
+  if (!counts) return undefined;
+  return Object.entries(counts)
+    .filter(([variant]) => variant === token || variant.startsWith(`${token} `))
+    .reduce((sum, [, count]) => sum + count, 0);
+}
+
+export const homebrewProvider: RegistryProvider = {
+  registry: "brew",
+  label: "Homebrew",
+  managers: ["brew"],
+  hosts: [new URL(HOMEBREW_API).host],
+  fetch: fetchHomebrewData,
+};
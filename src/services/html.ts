@@ -0,0 +1,435 @@
+/**
+ * HTML to Markdown conversion
+ *
+ * Keeps the structure parse.ts relies on: headings, lists, bold labels,
+ * inline code and link targets. Runs outside the browser so captures can
+ * be re-converted offline from the saved HTML.
+ */
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+type HtmlNode = ElementNode | TextNode;
+
+interface RenderContext {
+  baseUrl?: string;
+  pre: boolean;
+  listDepth: number;
+}
+
+export interface MarkdownOptions {
+  baseUrl?: string; // Resolves relative link targets
+}
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Content of these elements is never shown as text
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "head",
+  "button",
+  "iframe",
+]);
+
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "header",
+  "footer",
+  "aside",
+  "nav",
+  "figure",
+  "figcaption",
+  "details",
+  "summary",
+  "dl",
+  "dt",
+  "dd",
+  "form",
+  "fieldset",
+]);
+
+/**
+ * Convert an HTML document or fragment to Markdown
+ */
+export function htmlToMarkdown(
+  html: string,
+  options: MarkdownOptions = {},
+): string {
+  const root = parseHtml(html);
+  const markdown = renderChildren(root.children, {
+    baseUrl: options.baseUrl,
+    pre: false,
+    listDepth: 0,
+  });
+
+  return markdown
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Build a lenient element tree - unclosed tags are closed by their parent
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = {
+    type: "element",
+    tag: "#root",
+    attrs: {},
+    children: [],
+  };
+  const stack: ElementNode[] = [root];
+  const tokenPattern =
+    /<!--[^]*?-->|<!\[CDATA\[[^]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s=>\/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1] as ElementNode;
+  const pushText = (text: string) => {
+    if (text.length > 0) {
+      current().children.push({ type: "text", text: decodeEntities(text) });
+    }
+  };
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    pushText(html.slice(lastIndex, match.index));
+    lastIndex = tokenPattern.lastIndex;
+
+    const [, closeTag, openTag, rawAttrs, selfClose] = match;
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      // Pop back to the matching element, ignoring stray close tags
+      const index = stack.map((n) => n.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (!openTag) continue; // Comments, doctype, CDATA
+
+    const tag = openTag.toLowerCase();
+
+    // A new list item or paragraph implicitly closes the previous one
+    if (tag === "li" || tag === "p") {
+      const index = stack.map((n) => n.tag).lastIndexOf(tag);
+      const listIndex = Math.max(
+        stack.map((n) => n.tag).lastIndexOf("ul"),
+        stack.map((n) => n.tag).lastIndexOf("ol"),
+      );
+      if (index > 0 && index > listIndex) stack.length = index;
+    }
+
+    const element: ElementNode = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(rawAttrs || ""),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const closing = new RegExp(`</${tag}\\s*>`, "i");
+      const rest = html.slice(lastIndex);
+      const end = rest.search(closing);
+      const text = end === -1 ? rest : rest.slice(0, end);
+      element.children.push({ type: "text", text: decodeEntities(text) });
+      lastIndex += end === -1 ? rest.length : end;
+      tokenPattern.lastIndex = lastIndex;
+      continue;
+    }
+
+    if (!selfClose && !VOID_TAGS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  pushText(html.slice(lastIndex));
+  return root;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern =
+    /([^\s=>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrPattern.exec(raw)) !== null) {
+    const name = (match[1] || "").toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attrs[name] = decodeEntities(value);
+  }
+
+  return attrs;
+}
+
+function renderChildren(nodes: HtmlNode[], ctx: RenderContext): string {
+  let out = "";
+
+  for (const node of nodes) {
+    let piece = renderNode(node, ctx);
+    if (piece.length === 0) continue;
+
+    // Don't leave stray spaces around block boundaries
+    if (piece.startsWith("\n")) out = out.replace(/[ \t]+$/, "");
+    if (out.length === 0 || out.endsWith("\n")) {
+      piece = piece.replace(/^[ \t]+/, "");
+    }
+    out += piece;
+  }
+
+  return out;
+}
+
+function renderNode(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === "text") {
+    return ctx.pre ? node.text : node.text.replace(/\s+/g, " ");
+  }
+
+  const { tag } = node;
+  if (SKIPPED_TAGS.has(tag)) return "";
+
+  const inner = () => renderChildren(node.children, ctx);
+
+  switch (tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = inner().replace(/\s+/g, " ").trim();
+      if (!text) return "";
+      const level = Number(tag.slice(1));
+      return `\n\n${"#".repeat(level)} ${text}\n\n`;
+    }
+
+    case "br":
+      return "\n";
+
+    case "hr":
+      return "\n\n---\n\n";
+
+    case "strong":
+    case "b":
+      return wrapInline(inner(), "**");
+
+    case "em":
+    case "i":
+      return wrapInline(inner(), "*");
+
+    case "del":
+    case "s":
+      return wrapInline(inner(), "~~");
+
+    case "code":
+      if (ctx.pre) return inner();
+      return wrapInline(textContent(node).replace(/\s+/g, " "), "`");
+
+    case "pre": {
+      const code = textContent(node).replace(/\n+$/, "");
+      const langClass = findLanguage(node);
+      return `\n\n\`\`\`${langClass}\n${code}\n\`\`\`\n\n`;
+    }
+
+    case "a":
+      return renderLink(node, inner(), ctx);
+
+    case "img": {
+      const alt = (node.attrs.alt || "").trim();
+      return alt ? alt : "";
+    }
+
+    case "ul":
+    case "ol":
+      return renderList(node, ctx);
+
+    case "li":
+      // Only reached for list items outside a list
+      return `\n- ${inner().trim()}\n`;
+
+    case "blockquote": {
+      const text = inner().trim();
+      if (!text) return "";
+      const quoted = text
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+      return `\n\n${quoted}\n\n`;
+    }
+
+    case "table":
+      return renderTable(node, ctx);
+
+    default:
+      if (BLOCK_TAGS.has(tag)) {
+        const text = inner().trim();
+        return text ? `\n\n${text}\n\n` : "";
+      }
+      return inner();
+  }
+}
+
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return text;
+  const lead = /^\s/.test(text) ? " " : "";
+  const trail = /\s$/.test(text) ? " " : "";
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function renderLink(node: ElementNode, text: string, ctx: RenderContext) {
+  const href = resolveUrl(node.attrs.href || "", ctx.baseUrl);
+  const label = text.replace(/\s+/g, " ").trim();
+
+  if (!href || /^(javascript|mailto):/i.test(href) || href.startsWith("#")) {
+    return text;
+  }
+  if (!label) return href;
+
+  // Bare URLs stay bare so "**GitHub:** https://..." patterns still match
+  const bareHref = href.replace(/^https?:\/\//, "").replace(/\/$/, "");
+  const bareLabel = label.replace(/^https?:\/\//, "").replace(/\/$/, "");
+  if (bareHref === bareLabel) return href;
+
+  return `[${label}](${href})`;
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  const trimmed = href.trim();
+  if (!trimmed || !baseUrl) return trimmed;
+  try {
+    return new URL(trimmed, baseUrl).toString();
+  } catch {
+    return trimmed;
+  }
+}
+
+function renderList(node: ElementNode, ctx: RenderContext): string {
+  const ordered = node.tag === "ol";
+  const start = Number(node.attrs.start) || 1;
+  const items = node.children.filter(
+    (child): child is ElementNode =>
+      child.type === "element" && child.tag === "li",
+  );
+  const childCtx = { ...ctx, listDepth: ctx.listDepth + 1 };
+
+  const lines = items.map((item, i) => {
+    const marker = ordered ? `${start + i}. ` : "- ";
+    const indent = " ".repeat(marker.length);
+    const content = renderChildren(item.children, childCtx)
+      .replace(/\n{2,}/g, "\n")
+      .trim();
+
+    return content
+      .split("\n")
+      .map((line, j) => (j === 0 ? `${marker}${line}` : `${indent}${line}`))
+      .join("\n");
+  });
+
+  if (lines.length === 0) return "";
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+function renderTable(node: ElementNode, ctx: RenderContext): string {
+  const rows = collectRows(node).map((row) =>
+    row.children
+      .filter(
+        (cell): cell is ElementNode =>
+          cell.type === "element" && (cell.tag === "td" || cell.tag === "th"),
+      )
+      .map((cell) =>
+        renderChildren(cell.children, ctx)
+          .replace(/\s+/g, " ")
+          .replace(/\|/g, "\\|")
+          .trim(),
+      ),
+  );
+
+  const columns = Math.max(0, ...rows.map((r) => r.length));
+  if (rows.length === 0 || columns === 0) return "";
+
+  const pad = (row: string[]) =>
+    `| ${[...row, ...Array(columns - row.length).fill("")].join(" | ")} |`;
+  const [header, ...body] = rows;
+  const separator = `| ${Array(columns).fill("---").join(" | ")} |`;
+
+  return `\n\n${[pad(header || []), separator, ...body.map(pad)].join("\n")}\n\n`;
+}
+
+function collectRows(node: ElementNode): ElementNode[] {
+  const rows: ElementNode[] = [];
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+    if (child.tag === "tr") rows.push(child);
+    else if (["thead", "tbody", "tfoot"].includes(child.tag)) {
+      rows.push(...collectRows(child));
+    }
+  }
+  return rows;
+}
+
+function findLanguage(node: ElementNode): string {
+  const code = node.children.find(
+    (c): c is ElementNode => c.type === "element" && c.tag === "code",
+  );
+  const className = code?.attrs.class || node.attrs.class || "";
+  const match = className.match(/(?:language|lang)-([\w+-]+)/);
+  return match?.[1] || "";
+}
+
+function textContent(node: HtmlNode): string {
+  if (node.type === "text") return node.text;
+  if (node.tag === "br") return "\n";
+  return node.children.map(textContent).join("");
+}
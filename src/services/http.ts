@@ -0,0 +1,395 @@
+/**
+ * HTTP client - GET requests through an on-disk response cache
+ *
+ * Cached responses younger than the caller's TTL are served without a
+ * request. Older ones are revalidated with If-None-Match/If-Modified-Since,
+ * and a 304 reuses the cached body (GitHub doesn't count 304s against the
+ * rate limit). Responses live in data/cache/http/, shared by every task.
+ *
+ * Requests that do go out track each host's X-RateLimit budget, wait out a
+ * limit that resets soon, and retry network errors and 5xx responses with
+ * jittered exponential backoff. Search and GraphQL endpoints have budgets
+ * of their own (X-RateLimit-Resource), kept apart from the host's core one.
+ *
+ * With a cassette active (see cassette.ts), responses are recorded, or
+ * replayed without touching the cache or the network.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import { cassetteMode, recordResponse, replayResponse } from "./cassette";
+
+export const HTTP_CACHE_DIR = join(import.meta.dir, "../../data/cache/http");
+
+/**
+ * use: serve fresh entries, revalidate stale ones
+ * refresh: revalidate every entry (--refresh)
+ * off: no reads or writes (--no-cache)
+ */
+export type CacheMode = "use" | "refresh" | "off";
+
+// Attempts per request for network errors, 5xx and rate-limit responses
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE = 500; // ms, doubled per attempt
+const BACKOFF_MAX = 30_000;
+
+// Remaining requests at or below this count as a low budget
+export const LOW_BUDGET = 5;
+
+export interface HostStats {
+  fresh: number; // Served from cache, no request
+  revalidated: number; // 304 Not Modified
+  fetched: number; // Full responses (these count against rate limits)
+  retried: number; // Attempts repeated after an error or rate limit
+  replayed: number; // Served from a cassette (--offline)
+}
+
+interface RateBudget {
+  remaining: number;
+  resetAt: number; // Epoch ms
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    readonly host: string,
+    readonly resetAt: Date,
+  ) {
+    super(`${host} rate limit exhausted until ${resetAt.toLocaleTimeString()}`);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The API answered that the repo or package doesn't exist (a real answer,
+ * unlike a failed request)
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+interface CacheEntry {
+  url: string;
+  status: number;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  link?: string; // Pagination, read for counts
+  body: string;
+  fetchedAt: string; // ISO date of the last fetch or revalidation
+}
+
+interface CachedFetchOptions {
+  headers?: Record<string, string>;
+  body?: string; // Sent as a POST (GraphQL queries); cached per body
+  ttl: number; // Milliseconds a cached response is used without asking
+}
+
+let mode: CacheMode = "use";
+let maxWait = 5 * 60 * 1000; // Longest rate-limit pause before giving up
+const stats = new Map<string, HostStats>();
+const budgets = new Map<string, RateBudget>(); // By budgetKey()
+
+export function setCacheMode(next: CacheMode): void {
+  mode = next;
+}
+
+export function setMaxRateLimitWait(ms: number): void {
+  maxWait = ms;
+}
+
+/**
+ * GET a URL (or POST a body to it), answering from the cache when possible
+ * Only successful responses are cached
+ * @throws CassetteMissError offline, when the cassette lacks the URL
+ */
+export async function cachedFetch(
+  url: string,
+  options: CachedFetchOptions,
+): Promise<Response> {
+  const host = new URL(url).host;
+
+  switch (cassetteMode()) {
+    case "replay": {
+      const response = replayResponse(url, options.body);
+      count(host, "replayed");
+      return response;
+    }
+    case "record":
+      return recordResponse(
+        url,
+        await fetchThroughCache(url, options, host),
+        options.body,
+      );
+    default:
+      return fetchThroughCache(url, options, host);
+  }
+}
+
+async function fetchThroughCache(
+  url: string,
+  options: CachedFetchOptions,
+  host: string,
+): Promise<Response> {
+  if (mode === "off") {
+    return send(url, new Headers(options.headers), host, options.body);
+  }
+
+  const path = entryPath(url, options.body);
+  const entry: CacheEntry | undefined = existsSync(path)
+    ? JSON.parse(await readFile(path, "utf-8"))
+    : undefined;
+
+  if (
+    entry &&
+    mode === "use" &&
+    Date.now() - new Date(entry.fetchedAt).getTime() < options.ttl
+  ) {
+    count(host, "fresh");
+    return toResponse(entry);
+  }
+
+  const headers = new Headers(options.headers);
+  if (entry?.etag) headers.set("If-None-Match", entry.etag);
+  if (entry?.lastModified) headers.set("If-Modified-Since", entry.lastModified);
+
+  const response = await send(url, headers, host, options.body);
+
+  if (response.status === 304 && entry) {
+    entry.fetchedAt = new Date().toISOString();
+    await saveEntry(path, entry);
+    return toResponse(entry);
+  }
+
+  if (!response.ok) return response;
+
+  const fresh: CacheEntry = {
+    url,
+    status: response.status,
+    etag: response.headers.get("etag") || undefined,
+    lastModified: response.headers.get("last-modified") || undefined,
+    contentType: response.headers.get("content-type") || undefined,
+    link: response.headers.get("link") || undefined,
+    body: await response.text(),
+    fetchedAt: new Date().toISOString(),
+  };
+  await saveEntry(path, fresh);
+  return toResponse(fresh);
+}
+
+/**
+ * Whether a host's known core rate-limit budget is nearly spent
+ */
+export function budgetLow(host: string): boolean {
+  const budget = budgets.get(host);
+  return (
+    !!budget && budget.resetAt > Date.now() && budget.remaining <= LOW_BUDGET
+  );
+}
+
+/**
+ * Wait out an exhausted rate limit if it resets within the max wait
+ * @param resource - a budget apart from the host's core one, e.g. "search"
+ * @throws RateLimitError when the reset is further away
+ */
+export async function waitForBudget(
+  host: string,
+  onWait?: (until: Date) => void,
+  resource?: string,
+): Promise<void> {
+  const budget = budgets.get(budgetKey(host, resource));
+  if (!budget || budget.remaining > 0 || budget.resetAt <= Date.now()) return;
+
+  const resetAt = new Date(budget.resetAt);
+  if (budget.resetAt - Date.now() > maxWait) {
+    throw new RateLimitError(host, resetAt);
+  }
+  onWait?.(resetAt);
+  // The reset time has one-second resolution
+  await Bun.sleep(budget.resetAt - Date.now() + 1000);
+}
+
+/**
+ * Per-host counts since the process started
+ */
+export function cacheStats(): Map<string, HostStats> {
+  return stats;
+}
+
+/**
+ * One summary line per host, e.g.
+ * "api.github.com: 4 cached, 2 not modified, 1 fetched, 42 left (resets 14:05)"
+ */
+export function formatCacheStats(): string[] {
+  return [...stats.entries()].map(([host, s]) => {
+    if (s.replayed > 0) return `${host}: ${s.replayed} replayed`;
+
+    let line = `${host}: ${s.fresh} cached, ${s.revalidated} not modified, ${s.fetched} fetched`;
+    if (s.retried > 0) line += `, ${s.retried} retried`;
+
+    const budget = budgets.get(host);
+    if (budget && budget.resetAt > Date.now()) {
+      line += `, ${budget.remaining} left (resets ${new Date(budget.resetAt).toLocaleTimeString()})`;
+    }
+    return line;
+  });
+}
+
+/**
+ * Send a request, retrying network errors, 5xx and rate-limit responses
+ * @throws RateLimitError when still rate-limited after the last attempt
+ */
+async function send(
+  url: string,
+  headers: Headers,
+  host: string,
+  body?: string,
+): Promise<Response> {
+  const resource = rateResource(url);
+  for (let attempt = 1; ; attempt++) {
+    await waitForBudget(host, undefined, resource);
+
+    let response: Response;
+    try {
+      response = await fetch(
+        url,
+        body === undefined ? { headers } : { method: "POST", headers, body },
+      );
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      count(host, "retried");
+      await Bun.sleep(backoff(attempt));
+      continue;
+    }
+
+    count(host, response.status === 304 ? "revalidated" : "fetched");
+    recordBudget(host, resource, response);
+
+    // Secondary limits send Retry-After; primary ones exhaust the budget,
+    // which waitForBudget handles on the next attempt
+    const retryAfter = retryAfterMs(response);
+    const rateLimited =
+      response.status === 429 ||
+      (response.status === 403 &&
+        (retryAfter !== undefined ||
+          response.headers.get("x-ratelimit-remaining") === "0"));
+
+    if (attempt >= MAX_ATTEMPTS) {
+      if (!rateLimited) return response;
+      const resetAt =
+        retryAfter !== undefined
+          ? Date.now() + retryAfter
+          : budgets.get(budgetKey(host, resource))?.resetAt || Date.now();
+      throw new RateLimitError(host, new Date(resetAt));
+    }
+
+    if (rateLimited) {
+      if (retryAfter !== undefined) {
+        if (retryAfter > maxWait) {
+          throw new RateLimitError(host, new Date(Date.now() + retryAfter));
+        }
+        await Bun.sleep(retryAfter);
+      }
+      count(host, "retried");
+      continue;
+    }
+
+    if (response.status >= 500) {
+      count(host, "retried");
+      await Bun.sleep(retryAfter ?? backoff(attempt));
+      continue;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Full jitter: anywhere from 0 to the exponential delay, so parallel
+ * workers don't retry in lockstep
+ */
+function backoff(attempt: number): number {
+  return (
+    Math.random() * Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** (attempt - 1))
+  );
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+  if (/^\d+$/.test(header)) return parseInt(header) * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate-limit bucket a request draws from, by path, so it's known before
+ * the response names it (GitHub's search and GraphQL limits are separate)
+ */
+function rateResource(url: string): string | undefined {
+  const { pathname } = new URL(url);
+  if (/\/search\//.test(pathname)) return "search";
+  if (/\/graphql$/.test(pathname)) return "graphql";
+  return undefined;
+}
+
+/**
+ * The host for its core budget, "host resource" for any other
+ */
+function budgetKey(host: string, resource?: string): string {
+  return resource && resource !== "core" ? `${host} ${resource}` : host;
+}
+
+function recordBudget(
+  host: string,
+  resource: string | undefined,
+  response: Response,
+): void {
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (remaining === null || reset === null) return;
+
+  const key = budgetKey(
+    host,
+    response.headers.get("x-ratelimit-resource") || resource,
+  );
+  budgets.set(key, {
+    remaining: parseInt(remaining),
+    resetAt: parseInt(reset) * 1000,
+  });
+}
+
+function count(host: string, kind: keyof HostStats): void {
+  const hostStats = stats.get(host) || {
+    fresh: 0,
+    revalidated: 0,
+    fetched: 0,
+    retried: 0,
+    replayed: 0,
+  };
+  hostStats[kind]++;
+  stats.set(host, hostStats);
+}
+
+function entryPath(url: string, body?: string): string {
+  const key = createHash("sha256")
+    .update(body === undefined ? url : `${url}\n${body}`)
+    .digest("hex");
+  return join(HTTP_CACHE_DIR, `${key}.json`);
+}
+
+async function saveEntry(path: string, entry: CacheEntry): Promise<void> {
+  await mkdir(HTTP_CACHE_DIR, { recursive: true });
+  await writeFile(path, JSON.stringify(entry));
+}
+
+function toResponse(entry: CacheEntry): Response {
+  const headers: Record<string, string> = {};
+  if (entry.contentType) headers["Content-Type"] = entry.contentType;
+  if (entry.link) headers.Link = entry.link;
+  return new Response(entry.body, { status: entry.status, headers });
+}
@@ -0,0 +1,383 @@
+/**
+ * Install commands - Parse free-form install commands into InstallSpecs
+ *
+ * Parse, research and build all read install commands through here, so
+ * `npm install -g @scope/pkg@1.2` means the same thing in every stage.
+ */
+
+import type { InstallSpec, PackageManager, Tool } from "../models/types";
+
+// Managers whose packages live on the npm registry
+export const NPM_MANAGERS: PackageManager[] = [
+  "npm",
+  "bun",
+  "yarn",
+  "pnpm",
+  "npx",
+];
+
+// Managers whose packages live on PyPI
+export const PYPI_MANAGERS: PackageManager[] = ["pip", "pipx", "uvx"];
+
+// Flags that take a value, so the value isn't mistaken for the package
+// (-w is --workspace for npm and --workdir for docker; both take one)
+const VALUE_FLAGS = [
+  // npm family
+  "--registry",
+  "--prefix",
+  "--tag",
+  "-w",
+  "--workspace",
+  // pip / uv
+  "-r",
+  "--requirement",
+  "-c",
+  "--constraint",
+  "-i",
+  "--index-url",
+  "--extra-index-url",
+  "--python",
+  "--with",
+  // cargo
+  "--git",
+  "--version",
+  "--branch",
+  "--rev",
+  "--root",
+  "--features",
+  "-F",
+  "--bin",
+  // docker
+  "-p",
+  "--publish",
+  "-v",
+  "--volume",
+  "-e",
+  "--env",
+  "--name",
+  "--workdir",
+  "--network",
+  "--entrypoint",
+  "--platform",
+  "--mount",
+  // git
+  "--depth",
+  "-b",
+  "--origin",
+  "-o",
+  "--filter",
+  // claude mcp add
+  "-s",
+  "--scope",
+  "-t",
+  "--transport",
+  "-H",
+  "--header",
+];
+
+/**
+ * Parse an install command, which may hold several commands joined
+ * by `&&`, `;`, newlines or "or"
+ * @returns one spec per recognized command (others are dropped), plus
+ *   the package an MCP server is run from (`claude mcp add x -- npx pkg`)
+ */
+export function parseInstallCommand(command: string): InstallSpec[] {
+  return command
+    .split(/\s*(?:&&|\|\||;|\n|\s+or\s+)\s*/i)
+    .flatMap((part) => [parseOne(part), parseServerCommand(part)])
+    .filter((spec): spec is InstallSpec => spec !== undefined);
+}
+
+/**
+ * A tool's install specs, parsing installCommand for updates parsed
+ * before specs were recorded
+ */
+export function installSpecsFor(tool: Tool): InstallSpec[] {
+  if (tool.installSpecs) return tool.installSpecs;
+  return tool.installCommand ? parseInstallCommand(tool.installCommand) : [];
+}
+
+/**
+ * Package id with its version, in the manager's own syntax
+ */
+export function formatSpec(spec: InstallSpec): string {
+  if (!spec.version) return spec.packageId;
+
+  switch (spec.manager) {
+    case "pip":
+    case "pipx":
+    case "uvx":
+      return /^[<>=!~]/.test(spec.version)
+        ? `${spec.packageId}${spec.version}`
+        : `${spec.packageId}==${spec.version}`;
+    case "docker":
+      return spec.version.startsWith("sha256:")
+        ? `${spec.packageId}@${spec.version}`
+        : `${spec.packageId}:${spec.version}`;
+    case "git":
+      return `${spec.packageId}#${spec.version}`;
+    default:
+      return `${spec.packageId}@${spec.version}`;
+  }
+}
+
+function parseOne(raw: string): InstallSpec | undefined {
+  const text = raw
+    .trim()
+    .replace(/^\$\s+/, "")
+    .replace(/^sudo\s+/, "");
+  let [command, ...args] = tokenize(text);
+  if (!command) return undefined;
+
+  // python -m pip install ...
+  if (/^python3?$/.test(command) && args[0] === "-m") {
+    [command, ...args] = args.slice(1);
+  }
+
+  const spec = (
+    manager: PackageManager,
+    packageId: string | undefined,
+    version: string | undefined,
+    global: boolean,
+  ): InstallSpec | undefined =>
+    packageId ? { manager, packageId, version, global, raw: text } : undefined;
+
+  switch (command) {
+    case "npm":
+    case "pnpm":
+    case "bun": {
+      if (!["i", "install", "add"].includes(args[0] || "")) return undefined;
+      // A bare `npm install` installs the project's own dependencies
+      const target = positional(args.slice(1))[0];
+      const { name, version } = splitNpmSpec(target);
+      return spec(command, name, version, hasFlag(args, "-g", "--global"));
+    }
+
+    case "yarn": {
+      const global = args[0] === "global";
+      const rest = global ? args.slice(1) : args;
+      if (rest[0] !== "add") return undefined;
+      const { name, version } = splitNpmSpec(positional(rest.slice(1))[0]);
+      return spec("yarn", name, version, global);
+    }
+
+    case "npx":
+    case "bunx": {
+      const target = flagValue(args, "-p", "--package") || positional(args)[0];
+      const { name, version } = splitNpmSpec(target);
+      return spec("npx", name, version, false);
+    }
+
+    case "pip":
+    case "pip3": {
+      if (args[0] !== "install") return undefined;
+      const { name, version } = splitRequirement(positional(args.slice(1))[0]);
+      return spec("pip", name, version, false);
+    }
+
+    case "uv": {
+      if (args[0] === "pip") {
+        const pip = parseOne(`pip ${args.slice(1).join(" ")}`);
+        return pip && { ...pip, raw: text };
+      }
+      if (args[0] !== "tool" || !["install", "run"].includes(args[1] || "")) {
+        return undefined;
+      }
+      const { name, version } = splitRequirement(positional(args.slice(2))[0]);
+      return spec("uvx", name, version, args[1] === "install");
+    }
+
+    case "pipx": {
+      if (!["install", "run"].includes(args[0] || "")) return undefined;
+      const { name, version } = splitRequirement(
+        flagValue(args, "--spec") || positional(args.slice(1))[0],
+      );
+      return spec("pipx", name, version, args[0] === "install");
+    }
+
+    case "uvx": {
+      const target = flagValue(args, "--from") || positional(args)[0];
+      const { name, version } = splitRequirement(target);
+      return spec("uvx", name, version, false);
+    }
+
+    case "cargo": {
+      if (!["install", "add"].includes(args[0] || "")) return undefined;
+      const rest = args.slice(1);
+      const crate = positional(rest)[0];
+      const gitUrl = flagValue(rest, "--git");
+      if (!crate && gitUrl) {
+        // No crate named: the repo is all there is to look up
+        return spec("git", gitUrl, flagValue(rest, "--tag", "--branch"), false);
+      }
+      const { name, version } = splitNpmSpec(crate);
+      return spec(
+        "cargo",
+        name,
+        flagValue(rest, "--version") || version,
+        args[0] === "install",
+      );
+    }
+
+    case "go": {
+      if (!["install", "get"].includes(args[0] || "")) return undefined;
+      const { name, version } = splitNpmSpec(positional(args.slice(1))[0]);
+      return spec("go", name, version, args[0] === "install");
+    }
+
+    case "brew": {
+      if (args[0] !== "install") return undefined;
+      return spec("brew", positional(args.slice(1))[0], undefined, true);
+    }
+
+    case "docker": {
+      if (!["pull", "run"].includes(args[0] || "")) return undefined;
+      const { name, version } = splitImage(positional(args.slice(1))[0]);
+      return spec("docker", name, version, false);
+    }
+
+    case "git": {
+      if (args[0] !== "clone") return undefined;
+      const rest = args.slice(1);
+      return spec(
+        "git",
+        positional(rest)[0],
+        flagValue(rest, "-b", "--branch"),
+        false,
+      );
+    }
+
+    case "claude":
+      return parseClaude(args, spec);
+
+    case "/plugin":
+      return parseClaude(["plugin", ...args], spec);
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * `claude plugin install name@marketplace` and `claude mcp add name ...`
+ */
+function parseClaude(
+  args: string[],
+  spec: (
+    manager: PackageManager,
+    packageId: string | undefined,
+    version: string | undefined,
+    global: boolean,
+  ) => InstallSpec | undefined,
+): InstallSpec | undefined {
+  if (args[0] === "plugin" && args[1] === "install") {
+    // The @ suffix names the marketplace, not a version
+    return spec("claude-plugin", positional(args.slice(2))[0], undefined, true);
+  }
+
+  if (args[0] === "mcp" && ["add", "add-json"].includes(args[1] || "")) {
+    const rest = args.slice(2);
+    const scope = flagValue(rest, "-s", "--scope");
+    return spec("claude-mcp", positional(rest)[0], undefined, scope === "user");
+  }
+
+  return undefined;
+}
+
+/**
+ * The command after `--` in `claude mcp add name -- npx -y pkg`, which
+ * names the package that actually runs the server
+ */
+function parseServerCommand(raw: string): InstallSpec | undefined {
+  const match = raw.match(/^\s*(?:\$\s+)?claude\s+mcp\s+add\s.*?\s--\s+(.+)$/);
+  return match?.[1] ? parseOne(match[1]) : undefined;
+}
+
+/**
+ * Split a command line into words, honouring simple quotes
+ */
+function tokenize(text: string): string[] {
+  return (text.match(/"[^"]*"|'[^']*'|\S+/g) || []).map((token) =>
+    token.replace(/^(["'])(.*)\1$/, "$2"),
+  );
+}
+
+/**
+ * Non-flag arguments, stopping at `--`
+ */
+function positional(args: string[]): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] || "";
+    if (arg === "--") break;
+    if (arg.startsWith("-")) {
+      if (VALUE_FLAGS.includes(arg)) i++;
+      continue;
+    }
+    values.push(arg);
+  }
+  return values;
+}
+
+function hasFlag(args: string[], ...flags: string[]): boolean {
+  return args.some((arg) => flags.includes(arg));
+}
+
+function flagValue(args: string[], ...flags: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] || "";
+    if (flags.includes(arg)) return args[i + 1];
+    const [flag, value] = arg.split("=", 2);
+    if (flag && value && flags.includes(flag)) return value;
+  }
+  return undefined;
+}
+
+/**
+ * "@scope/pkg@1.2" → @scope/pkg + 1.2 (also crate@1.2 and module@v1.2)
+ */
+function splitNpmSpec(target?: string): { name?: string; version?: string } {
+  if (!target) return {};
+  const at = target.lastIndexOf("@");
+  if (at <= 0) return { name: target };
+
+  const version = target.slice(at + 1);
+  return {
+    name: target.slice(0, at),
+    version: version && version !== "latest" ? version : undefined,
+  };
+}
+
+/**
+ * "pkg[extra]==1.2" → pkg + 1.2, "pkg>=1.0" → pkg + ">=1.0", "pkg@1.2" → pkg + 1.2
+ */
+function splitRequirement(target?: string): {
+  name?: string;
+  version?: string;
+} {
+  if (!target) return {};
+  const match = target.match(
+    /^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(?:(==|@)\s*([^,;\s]+)|([<>=!~]=?.+))?$/,
+  );
+  if (!match) return { name: target };
+  return { name: match[1], version: match[3] || match[4] };
+}
+
+/**
+ * "ghcr.io/org/image:1.2" → ghcr.io/org/image + 1.2
+ */
+function splitImage(target?: string): { name?: string; version?: string } {
+  if (!target) return {};
+
+  const digest = target.indexOf("@");
+  if (digest > 0) {
+    return { name: target.slice(0, digest), version: target.slice(digest + 1) };
+  }
+
+  // A colon after the last slash is a tag; before it, a registry port
+  const colon = target.lastIndexOf(":");
+  if (colon > target.lastIndexOf("/")) {
+    return { name: target.slice(0, colon), version: target.slice(colon + 1) };
+  }
+  return { name: target };
+}
@@ -0,0 +1,154 @@
+/**
+ * License policy - Allow, review or deny licenses by SPDX ID
+ *
+ * The policy lives in config/license-policy.json. A tool is checked on its
+ * own license (GitHub's, else its npm package's) and on every license in
+ * its npm dependency tree; the strictest verdict wins. SPDX expressions
+ * take the most permissive side of an OR and the strictest of an AND.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type {
+  LicenseCheck,
+  LicenseFinding,
+  LicensePolicy,
+  LicenseVerdict,
+  ToolResearch,
+} from "../models/types";
+
+export const LICENSE_POLICY_PATH = join(
+  import.meta.dir,
+  "../../config/license-policy.json",
+);
+
+const VERDICTS: LicenseVerdict[] = ["allow", "review", "deny"];
+
+/**
+ * Read and validate config/license-policy.json
+ */
+export async function loadLicensePolicy(
+  path = LICENSE_POLICY_PATH,
+): Promise<LicensePolicy> {
+  const policy = JSON.parse(await readFile(path, "utf-8"));
+
+  for (const list of ["allow", "review", "deny"] as const) {
+    if (!Array.isArray(policy[list])) {
+      throw new Error(`${path} must have an "${list}" array`);
+    }
+  }
+  for (const fallback of ["unlicensed", "unknown"] as const) {
+    if (!VERDICTS.includes(policy[fallback])) {
+      throw new Error(
+        `"${fallback}" in ${path} must be one of ${VERDICTS.join(", ")}`,
+      );
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Verdict for a tool's own license and its npm dependencies' licenses
+ */
+export function checkLicenses(
+  research: ToolResearch,
+  policy: LicensePolicy,
+): LicenseCheck {
+  const { github, npm } = research;
+  const findings: LicenseFinding[] = [];
+
+  const own = github?.license || npm?.license;
+  // Nothing to judge when research found neither a repo nor a package
+  if (github || npm) {
+    const verdict = evaluateLicense(own, policy);
+    if (verdict !== "allow") {
+      findings.push({
+        license: own || "none",
+        verdict,
+        source: "project",
+        packages: [],
+      });
+    }
+  }
+
+  const tree = npm?.dependencyLicenses;
+  for (const [license, packages] of Object.entries(tree?.licenses || {})) {
+    const verdict = evaluateLicense(
+      license === "none" ? undefined : license,
+      policy,
+    );
+    if (verdict !== "allow") {
+      findings.push({ license, verdict, source: "dependency", packages });
+    }
+  }
+
+  return {
+    verdict: strictest(findings.map((f) => f.verdict)),
+    findings,
+    dependenciesChecked: tree?.checked ?? 0,
+    complete: tree?.complete ?? true,
+  };
+}
+
+/**
+ * Verdict for one SPDX ID or expression (undefined = no license)
+ */
+export function evaluateLicense(
+  license: string | undefined,
+  policy: LicensePolicy,
+): LicenseVerdict {
+  const expression = license?.trim().replace(/^\((.*)\)$/, "$1");
+  if (!expression || /^UNLICENSED$/i.test(expression)) {
+    return policy.unlicensed;
+  }
+
+  const anyOf = expression.split(/\s+OR\s+/i);
+  if (anyOf.length > 1) {
+    return mostPermissive(anyOf.map((l) => evaluateLicense(l, policy)));
+  }
+  const allOf = expression.split(/\s+AND\s+/i);
+  if (allOf.length > 1) {
+    return strictest(allOf.map((l) => evaluateLicense(l, policy)));
+  }
+
+  // "GPL-2.0-only WITH Classpath-exception-2.0" is judged as GPL-2.0
+  const id = baseId(expression.split(/\s+WITH\s+/i)[0] || "");
+  for (const verdict of ["deny", "review", "allow"] as const) {
+    if (policy[verdict].some((entry) => baseId(entry) === id)) return verdict;
+  }
+  return policy.unknown;
+}
+
+/**
+ * License for display ("none" reads as "no license")
+ */
+export function licenseLabel(license: string): string {
+  return license === "none" ? "no license" : license;
+}
+
+/**
+ * "AGPL-3.0-or-later", "AGPL-3.0+" and "agpl-3.0" all become "agpl-3.0"
+ * (stray parentheses from nested expressions are dropped)
+ */
+function baseId(id: string): string {
+  return id
+    .replace(/[()]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/(?:-only|-or-later|\+)$/, "");
+}
+
+function strictest(verdicts: LicenseVerdict[]): LicenseVerdict {
+  return verdicts.reduce<LicenseVerdict>(
+    (worst, v) => (VERDICTS.indexOf(v) > VERDICTS.indexOf(worst) ? v : worst),
+    "allow",
+  );
+}
+
+function mostPermissive(verdicts: LicenseVerdict[]): LicenseVerdict {
+  return verdicts.reduce<LicenseVerdict>(
+    (best, v) => (VERDICTS.indexOf(v) < VERDICTS.indexOf(best) ? v : best),
+    "deny",
+  );
+}
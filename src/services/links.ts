@@ -0,0 +1,177 @@
+/**
+ * Tool links - Find every URL in a tool's text and classify it
+ */
+
+import type { LinkKind, Tool, ToolLink } from "../models/types";
+
+// Source hosting (owner/repo paths)
+const REPO_HOSTS = [
+  "github.com",
+  "gitlab.com",
+  "bitbucket.org",
+  "codeberg.org",
+  "gist.github.com",
+];
+
+// Package pages, by host and the path prefix of a package page
+const REGISTRY_PAGES: [string, RegExp][] = [
+  ["npmjs.com", /^\/package\//],
+  ["pypi.org", /^\/project\//],
+  ["crates.io", /^\/crates\//],
+  ["pkg.go.dev", /^\//],
+  ["hub.docker.com", /^\/(r|_)\//],
+  ["formulae.brew.sh", /^\/(formula|cask)\//],
+  ["rubygems.org", /^\/gems\//],
+  ["jsr.io", /^\/@/],
+];
+
+// Plugin, extension and MCP server directories
+const MARKETPLACE_HOSTS = [
+  "marketplace.visualstudio.com",
+  "open-vsx.org",
+  "chromewebstore.google.com",
+  "plugins.jetbrains.com",
+  "smithery.ai",
+  "mcp.so",
+  "glama.ai",
+  "claude-plugins.dev",
+  "claudecodemarketplace.com",
+  "skillsmp.com",
+];
+
+// Posts and threads (profile pages are homepages)
+const SOCIAL_POSTS: [string, RegExp][] = [
+  ["x.com", /^\/\w+\/status\/\d+/],
+  ["twitter.com", /^\/\w+\/status\/\d+/],
+  ["threads.net", /\/post\//],
+  ["bsky.app", /\/post\//],
+  ["reddit.com", /^\/r\/[^/]+\/comments\//],
+  ["news.ycombinator.com", /^\/item/],
+  ["linkedin.com", /^\/(posts|feed)\//],
+  ["youtube.com", /^\/(watch|shorts)/],
+  ["youtu.be", /^\//],
+];
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/g;
+const BARE_URL = /https?:\/\/[^\s<>"'`|\])]+/g;
+
+/**
+ * Every Markdown link and bare URL in the text, classified and de-duplicated
+ */
+export function extractLinks(text: string): ToolLink[] {
+  const links: ToolLink[] = [];
+
+  for (const match of text.matchAll(MARKDOWN_LINK)) {
+    addLink(links, match[2] || "", match[1]);
+  }
+
+  // Bare URLs, with the Markdown links taken out so they aren't seen twice
+  const rest = text.replace(MARKDOWN_LINK, " ");
+  for (const match of rest.matchAll(BARE_URL)) {
+    addLink(links, match[0]);
+  }
+
+  return links;
+}
+
+/**
+ * Add a link unless the same URL is already there
+ */
+export function addLink(links: ToolLink[], url: string, label?: string): void {
+  const cleaned = cleanLinkUrl(url);
+  if (!URL.canParse(cleaned) || links.some((l) => sameUrl(l.url, cleaned))) {
+    return;
+  }
+
+  const trimmedLabel = label?.replace(/[*`_]/g, "").trim();
+  links.push({
+    kind: classifyLink(cleaned, trimmedLabel),
+    url: cleaned,
+    label: trimmedLabel || undefined,
+  });
+}
+
+/**
+ * Decide what kind of page a URL points at
+ * @param label - link text, used to spot docs on an otherwise plain site
+ */
+export function classifyLink(url: string, label?: string): LinkKind {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "homepage";
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  const path = parsed.pathname;
+  const onHost = (domain: string) =>
+    host === domain || host.endsWith(`.${domain}`);
+
+  if (
+    (host === "github.com" && path.startsWith("/marketplace")) ||
+    MARKETPLACE_HOSTS.some(onHost) ||
+    /\bmarketplace\b/i.test(path)
+  ) {
+    return "marketplace";
+  }
+
+  if (REPO_HOSTS.includes(host)) {
+    // Docs rendered from a repo are still docs
+    if (/\/(wiki|blob\/[^/]+\/docs)\b/.test(path)) return "docs";
+    return path.split("/").filter(Boolean).length >= 2 ? "repo" : "homepage";
+  }
+
+  if (
+    REGISTRY_PAGES.some(([domain, page]) => onHost(domain) && page.test(path))
+  ) {
+    return "package-registry";
+  }
+
+  if (
+    SOCIAL_POSTS.some(([domain, post]) => onHost(domain) && post.test(path))
+  ) {
+    return "social-post";
+  }
+
+  if (
+    host.startsWith("docs.") ||
+    onHost("readthedocs.io") ||
+    onHost("gitbook.io") ||
+    /^\/(docs?|documentation|guide|reference)\b/i.test(path) ||
+    /\b(docs|documentation|guide|reference)\b/i.test(label || "")
+  ) {
+    return "docs";
+  }
+
+  return "homepage";
+}
+
+/**
+ * First link of a kind, optionally on a given host
+ */
+export function findLink(
+  tool: Tool,
+  kind: LinkKind,
+  host?: string,
+): ToolLink | undefined {
+  return (tool.links || []).find(
+    (link) =>
+      link.kind === kind &&
+      (!host || new URL(link.url).hostname.endsWith(host)),
+  );
+}
+
+function cleanLinkUrl(url: string): string {
+  // Trailing sentence punctuation is almost never part of the URL
+  return url.trim().replace(/[).,;:!?>*]+$/, "");
+}
+
+function sameUrl(a: string, b: string): boolean {
+  const normalize = (url: string) =>
+    url
+      .toLowerCase()
+      .replace(/^https?:\/\/(www\.)?/, "")
+      .replace(/\/$/, "");
+  return normalize(a) === normalize(b);
+}
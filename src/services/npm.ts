@@ -2,10 +2,75 @@
  * npm Registry API service - Fetch package data
  */
 
-import type { NpmData } from "../models/types";
+import type {
+  DependencyLicenses,
+  NpmData,
+  SearchCandidate,
+} from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import { CassetteMissError } from "./cassette";
 
-const NPM_REGISTRY = "https://registry.npmjs.org";
-const NPM_API = "https://api.npmjs.org";
+// Overridable to point research at a mock server
+export const NPM_REGISTRY =
+  process.env.DTU_NPM_REGISTRY || "https://registry.npmjs.org";
+export const NPM_API = process.env.DTU_NPM_API || "https://api.npmjs.org";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const PACKAGE_TTL = 6 * HOUR;
+const DOWNLOADS_TTL = 24 * HOUR; // Download counts update once a day
+const SEARCH_TTL = 24 * HOUR;
+
+// Lifecycle scripts npm runs during `npm install`
+const INSTALL_SCRIPTS = ["preinstall", "install", "postinstall"];
+
+// Dependency tree walked for licenses: packages looked up in total, and
+// at once
+const MAX_DEPENDENCY_LOOKUPS = 150;
+const DEPENDENCY_CONCURRENCY = 8;
+
+// Candidates a search returns for discovery to rank
+const SEARCH_RESULTS = 5;
+
+// package.json of one published version
+interface Manifest {
+  name: string;
+  version: string;
+  license?: unknown; // SPDX string, or { type } in old packages
+  licenses?: unknown; // Legacy array of { type }
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  maintainers?: { name: string }[];
+  _npmUser?: { name: string }; // Publisher
+}
+
+// Registry document for a package, every version included
+interface PackageDocument {
+  "dist-tags"?: { latest?: string };
+  versions?: Record<string, Manifest>;
+  time?: Record<string, string>;
+  maintainers?: { name: string }[];
+}
+
+interface DownloadsResponse {
+  downloads?: number;
+}
+
+// Manifests by name@range, shared by every tool in a run: dependency
+// trees overlap heavily
+const manifests = new Map<string, Promise<Manifest | undefined>>();
+
+// One result from the registry's search endpoint
+interface SearchObject {
+  package: {
+    name: string;
+    description?: string;
+    publisher?: { username: string };
+    maintainers?: { username: string }[];
+    links?: { repository?: string };
+  };
+}
 
 /**
  * Fetch npm package data
@@ -16,35 +81,40 @@ export async function fetchNpmData(packageName: string): Promise<NpmData> {
   const cleanName = packageName.replace(/^@/, "").trim();
 
   // Fetch package info
-  const packageResponse = await fetch(
+  const packageResponse = await cachedFetch(
     `${NPM_REGISTRY}/${encodeURIComponent(packageName)}`,
+    { ttl: PACKAGE_TTL },
   );
 
   if (!packageResponse.ok) {
     if (packageResponse.status === 404) {
-      throw new Error(`Package not found: ${packageName}`);
+      throw new NotFoundError(`Package not found: ${packageName}`);
     }
     throw new Error(`npm registry error: ${packageResponse.status}`);
   }
 
-  const packageData = await packageResponse.json();
+  const packageData = (await packageResponse.json()) as PackageDocument;
 
   // Get latest version info
   const latestVersion = packageData["dist-tags"]?.latest || "unknown";
-  const versionData = packageData.versions?.[latestVersion] || {};
+  const versionData: Partial<Manifest> =
+    packageData.versions?.[latestVersion] || {};
 
   // Fetch download counts
   let weeklyDownloads = 0;
   try {
-    const downloadsResponse = await fetch(
+    const downloadsResponse = await cachedFetch(
       `${NPM_API}/downloads/point/last-week/${encodeURIComponent(packageName)}`,
+      { ttl: DOWNLOADS_TTL },
     );
     if (downloadsResponse.ok) {
-      const downloadsData = await downloadsResponse.json();
+      const downloadsData =
+        (await downloadsResponse.json()) as DownloadsResponse;
       weeklyDownloads = downloadsData.downloads || 0;
     }
-  } catch {
-    // Ignore download count errors
+  } catch (error) {
+    // Ignore download count errors, but not a gap in an offline cassette
+    if (error instanceof CassetteMissError) throw error;
   }
 
   // Count dependencies
@@ -55,36 +125,213 @@ export async function fetchNpmData(packageName: string): Promise<NpmData> {
   const time = packageData.time || {};
   const lastPublished = time[latestVersion] || time.modified || "unknown";
 
+  // Scripts npm runs on install, before the user ever calls the package
+  const scripts = versionData.scripts || {};
+  const installScripts = Object.fromEntries(
+    INSTALL_SCRIPTS.filter((name) => scripts[name]).map((name) => [
+      name,
+      scripts[name] as string,
+    ]),
+  );
+
   return {
     packageName,
     weeklyDownloads,
     version: latestVersion,
     lastPublished,
+    createdAt: time.created,
     dependencies,
     devDependencies,
+    maintainers: (packageData.maintainers || []).map((m) => m.name),
+    maintainersAdded: maintainersAdded(packageData.versions || {}, time),
+    installScripts,
+    license: licenseOf(versionData),
+    dependencyLicenses: await dependencyLicenses(
+      versionData.dependencies || {},
+    ),
   };
 }
 
 /**
- * Search npm for a package
+ * License of every package in the dependency tree, one version per package.
+ * The registry resolves each semver range to its newest matching version.
  */
-export async function searchNpmPackage(query: string): Promise<string | null> {
+async function dependencyLicenses(
+  dependencies: Record<string, string>,
+): Promise<DependencyLicenses> {
+  const result: DependencyLicenses = {
+    licenses: {},
+    checked: 0,
+    complete: true,
+  };
+  const seen = new Set<string>();
+  let level = Object.entries(dependencies);
+
+  while (level.length > 0) {
+    const next: [string, string][] = [];
+    const pending = level.filter(([name]) => {
+      if (seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    });
+
+    const budget = MAX_DEPENDENCY_LOOKUPS - result.checked;
+    if (pending.length > budget) result.complete = false;
+
+    const batch = pending.slice(0, Math.max(0, budget));
+    for (let i = 0; i < batch.length; i += DEPENDENCY_CONCURRENCY) {
+      const manifests = await Promise.all(
+        batch
+          .slice(i, i + DEPENDENCY_CONCURRENCY)
+          .map(([name, range]) => fetchManifest(name, range)),
+      );
+
+      for (const manifest of manifests) {
+        result.checked++;
+        if (!manifest) {
+          result.complete = false;
+          continue;
+        }
+        const license = licenseOf(manifest) || "none";
+        (result.licenses[license] ||= []).push(
+          `${manifest.name}@${manifest.version}`,
+        );
+        next.push(...Object.entries(manifest.dependencies || {}));
+      }
+    }
+
+    level = next;
+  }
+
+  return result;
+}
+
+/**
+ * package.json of the version a dependency range resolves to, looked up
+ * once per run
+ * @returns undefined for ranges the registry can't resolve (git, file:, ...)
+ */
+function fetchManifest(
+  name: string,
+  range: string,
+): Promise<Manifest | undefined> {
+  // "npm:other@^1.0.0" aliases another package
+  const alias = range.match(/^npm:((?:@[^/]+\/)?[^@]+)@?(.*)$/);
+  const target = alias?.[1] || name;
+  const spec = (alias ? alias[2] : range) || "latest";
+  if (/^(?:git|file|link|workspace|https?):|\//.test(spec)) {
+    return Promise.resolve(undefined);
+  }
+
+  const key = `${target}@${spec}`;
+  let manifest = manifests.get(key);
+  if (!manifest) {
+    manifest = resolveManifest(target, spec);
+    manifests.set(key, manifest);
+  }
+  return manifest;
+}
+
+async function resolveManifest(
+  target: string,
+  spec: string,
+): Promise<Manifest | undefined> {
   try {
-    const response = await fetch(
-      `${NPM_REGISTRY}/-/v1/search?text=${encodeURIComponent(query)}&size=1`,
+    const response = await cachedFetch(
+      `${NPM_REGISTRY}/${encodeURIComponent(target)}/${encodeURIComponent(spec)}`,
+      { ttl: PACKAGE_TTL },
     );
+    if (!response.ok) return undefined;
+    return (await response.json()) as Manifest;
+  } catch (error) {
+    // A failed lookup leaves the check incomplete, unless offline
+    if (error instanceof CassetteMissError) throw error;
+    return undefined;
+  }
+}
 
-    if (!response.ok) {
-      return null;
-    }
+/**
+ * SPDX expression from a package.json "license" (or legacy "licenses")
+ */
+function licenseOf(manifest: {
+  license?: unknown;
+  licenses?: unknown;
+}): string | undefined {
+  const { license, licenses } = manifest;
+  if (typeof license === "string") return license;
+  if (license && typeof license === "object" && "type" in license) {
+    return String(license.type);
+  }
+  if (Array.isArray(licenses) && licenses.length > 0) {
+    return licenses.map((l) => l?.type ?? l).join(" OR ");
+  }
+  return undefined;
+}
+
+/**
+ * Maintainers and publishers who first appear after the first version,
+ * with the date of the version they appear on
+ */
+function maintainersAdded(
+  versions: Record<
+    string,
+    { maintainers?: { name: string }[]; _npmUser?: { name: string } }
+  >,
+  time: Record<string, string>,
+): { name: string; date: string }[] {
+  const published = Object.entries(versions)
+    .filter(([version]) => time[version])
+    .sort(([a], [b]) => (time[a] as string).localeCompare(time[b] as string));
 
-    const data = await response.json();
-    if (data.objects && data.objects.length > 0) {
-      return data.objects[0].package.name;
+  const seen = new Set<string>();
+  const added: { name: string; date: string }[] = [];
+  published.forEach(([version, data], i) => {
+    const names = [
+      ...(data.maintainers || []).map((m) => m.name),
+      data._npmUser?.name,
+    ].filter((name): name is string => !!name);
+    for (const name of names) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+      if (i > 0) added.push({ name, date: time[version] as string });
     }
-  } catch {
-    // Ignore search errors
+  });
+  return added;
+}
+
+/**
+ * Search npm for packages, most relevant first
+ * @throws when the search fails, so it isn't mistaken for no results
+ */
+export async function searchNpmPackage(
+  query: string,
+  limit = SEARCH_RESULTS,
+): Promise<SearchCandidate[]> {
+  const response = await cachedFetch(
+    `${NPM_REGISTRY}/-/v1/search?text=${encodeURIComponent(query)}&size=${limit}`,
+    { ttl: SEARCH_TTL },
+  );
+
+  if (!response.ok) {
+    throw new Error(`npm search error: ${response.status}`);
   }
 
-  return null;
+  const data = (await response.json()) as { objects?: SearchObject[] };
+  return (data.objects || []).map(({ package: pkg }): SearchCandidate => {
+    const scope = pkg.name.match(/^@([^/]+)\//)?.[1];
+    const repoOwner = pkg.links?.repository?.match(
+      /github\.com\/([^/]+)\//,
+    )?.[1];
+    return {
+      id: pkg.name,
+      name: pkg.name.replace(/^@[^/]+\//, ""),
+      description: pkg.description || undefined,
+      owners: [
+        scope,
+        pkg.publisher?.username,
+        ...(pkg.maintainers || []).map((m) => m.username),
+        repoOwner,
+      ].filter((owner): owner is string => !!owner),
+    };
+  });
 }
@@ -0,0 +1,73 @@
+/**
+ * Registry providers - Package data from crates.io, Homebrew, Docker Hub
+ * and the Go module proxy
+ *
+ * Each provider handles the install specs of its package managers and
+ * returns the same RegistryData fields, so scoring can compare a crate's
+ * downloads with a formula's installs. npm and PyPI keep their own richer
+ * records (see npm.ts and pypi.ts).
+ */
+
+import type {
+  InstallSpec,
+  PackageManager,
+  PackageRegistry,
+  RegistryData,
+  Tool,
+} from "../models/types";
+import { installSpecsFor } from "./install";
+import { cratesProvider } from "./crates";
+import { homebrewProvider } from "./homebrew";
+import { dockerHubProvider } from "./dockerhub";
+import { goModulesProvider } from "./gomod";
+
+export interface RegistryProvider {
+  registry: PackageRegistry;
+  label: string; // Shown in notes and Markdown, e.g. "crates.io"
+  managers: PackageManager[]; // Install specs it handles
+  hosts: string[]; // Hosts it requests from, for the scheduler
+  /** Whether the package lives on this registry (e.g. not ghcr.io images) */
+  supports?(packageId: string): boolean;
+  fetch(packageId: string): Promise<RegistryData>;
+}
+
+export const REGISTRY_PROVIDERS: RegistryProvider[] = [
+  cratesProvider,
+  homebrewProvider,
+  dockerHubProvider,
+  goModulesProvider,
+];
+
+/**
+ * Providers for a tool's install specs, one package per registry
+ */
+export function providersFor(
+  tool: Tool,
+): { provider: RegistryProvider; spec: InstallSpec }[] {
+  const found = new Map<
+    PackageRegistry,
+    { provider: RegistryProvider; spec: InstallSpec }
+  >();
+
+  for (const spec of installSpecsFor(tool)) {
+    const provider = REGISTRY_PROVIDERS.find(
+      (p) =>
+        p.managers.includes(spec.manager) &&
+        (!p.supports || p.supports(spec.packageId)),
+    );
+    if (provider && !found.has(provider.registry)) {
+      found.set(provider.registry, { provider, spec });
+    }
+  }
+
+  return [...found.values()];
+}
+
+/**
+ * Registry label for a RegistryData record
+ */
+export function registryLabel(registry: PackageRegistry): string {
+  return (
+    REGISTRY_PROVIDERS.find((p) => p.registry === registry)?.label || registry
+  );
+}
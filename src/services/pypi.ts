@@ -0,0 +1,206 @@
+/**
+ * PyPI JSON API service - Fetch Python package data
+ *
+ * Package metadata comes from pypi.org. PyPI itself publishes no download
+ * counts, so those come from a separate stats source (pypistats.org by
+ * default) that can be swapped or turned off with setPypiStatsSource.
+ */
+
+import type { PypiData, PypiDownloads } from "../models/types";
+import { NotFoundError, cachedFetch } from "./http";
+import { CassetteMissError } from "./cassette";
+
+// Overridable to point research at a mock server
+export const PYPI_API = process.env.DTU_PYPI_API || "https://pypi.org";
+export const PYPISTATS_API =
+  process.env.DTU_PYPISTATS_API || "https://pypistats.org";
+
+// How long each endpoint's cached response is used without revalidating
+const HOUR = 60 * 60 * 1000;
+const PACKAGE_TTL = 6 * HOUR;
+const DOWNLOADS_TTL = 24 * HOUR; // Download counts update once a day
+
+// Newest releases kept in PypiData.releases
+const MAX_RELEASES = 10;
+
+interface PypiFile {
+  packagetype?: string;
+  upload_time_iso_8601?: string;
+  yanked?: boolean;
+}
+
+// The fields research reads from /pypi/<name>/json
+interface PypiResponse {
+  info?: {
+    name?: string;
+    version?: string;
+    requires_dist?: string[] | null;
+    requires_python?: string | null;
+    classifiers?: string[];
+    project_urls?: Record<string, string> | null;
+    home_page?: string | null;
+  };
+  releases?: Record<string, PypiFile[]>;
+  urls?: PypiFile[]; // Files of the latest release
+}
+
+interface PypistatsResponse {
+  data?: { last_day?: number; last_week?: number; last_month?: number };
+}
+
+/**
+ * Where PyPI download counts come from
+ */
+export interface PypiStatsSource {
+  name: string;
+  hosts: string[]; // Hosts it requests from, for the scheduler
+  fetchDownloads(packageName: string): Promise<PypiDownloads | undefined>;
+}
+
+/**
+ * pypistats.org: last day, week and month from the public BigQuery dataset
+ */
+const pypistats: PypiStatsSource = {
+  name: "pypistats",
+  hosts: [new URL(PYPISTATS_API).host],
+  async fetchDownloads(packageName) {
+    const response = await cachedFetch(
+      `${PYPISTATS_API}/api/packages/${normalizeName(packageName)}/recent`,
+      { ttl: DOWNLOADS_TTL },
+    );
+    if (!response.ok) return undefined;
+
+    const { data } = (await response.json()) as PypistatsResponse;
+    return {
+      lastDay: data?.last_day || 0,
+      lastWeek: data?.last_week || 0,
+      lastMonth: data?.last_month || 0,
+      source: "pypistats",
+    };
+  },
+};
+
+/**
+ * No download counts (--pypi-stats none)
+ */
+const noStats: PypiStatsSource = {
+  name: "none",
+  hosts: [],
+  async fetchDownloads() {
+    return undefined;
+  },
+};
+
+export const PYPI_STATS_SOURCES: Record<string, PypiStatsSource> = {
+  pypistats,
+  none: noStats,
+};
+
+let statsSource: PypiStatsSource = pypistats;
+
+export function setPypiStatsSource(source: PypiStatsSource): void {
+  statsSource = source;
+}
+
+export function pypiStatsSource(): PypiStatsSource {
+  return statsSource;
+}
+
+/**
+ * Fetch PyPI package data
+ * @param packageName - PyPI project name (any case or separator)
+ */
+export async function fetchPypiData(packageName: string): Promise<PypiData> {
+  const response = await cachedFetch(
+    `${PYPI_API}/pypi/${normalizeName(packageName)}/json`,
+    { ttl: PACKAGE_TTL },
+  );
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new NotFoundError(`Package not found: ${packageName}`);
+    }
+    throw new Error(`PyPI error: ${response.status}`);
+  }
+
+  const data = (await response.json()) as PypiResponse;
+  const info = data.info || {};
+  const releases = releaseDates(data.releases || {});
+  const latest = releases.find((r) => r.version === info.version);
+
+  // Dependencies behind an extra are optional
+  const dependencies = (info.requires_dist || []).filter(
+    (req) => !/\bextra\s*==/.test(req),
+  ).length;
+
+  let downloads: PypiDownloads | undefined;
+  try {
+    downloads = await statsSource.fetchDownloads(packageName);
+  } catch (error) {
+    // Ignore download count errors, but not a gap in an offline cassette
+    if (error instanceof CassetteMissError) throw error;
+  }
+
+  return {
+    packageName: info.name || packageName,
+    version: info.version || "unknown",
+    lastReleased: latest?.date || releases[0]?.date || "unknown",
+    firstReleased: releases[releases.length - 1]?.date,
+    releaseCount: releases.length,
+    releases: releases.slice(0, MAX_RELEASES),
+    requiresPython: info.requires_python || undefined,
+    dependencies,
+    classifiers: info.classifiers || [],
+    projectUrls: projectUrls(info),
+    downloads,
+    sdistOnly: sdistOnly(data.urls),
+  };
+}
+
+/**
+ * Whether the latest release's files are all source distributions
+ */
+function sdistOnly(files: PypiFile[] | undefined): boolean | undefined {
+  if (!files || files.length === 0) return undefined;
+  return !files.some((f) => f.packagetype === "bdist_wheel");
+}
+
+/**
+ * PEP 503 normalized name: "Foo_Bar.baz" → "foo-bar-baz"
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Each release's first upload date, newest first (yanked and file-less
+ * releases are skipped)
+ */
+function releaseDates(
+  releases: Record<string, PypiFile[]>,
+): { version: string; date: string }[] {
+  const dated: { version: string; date: string }[] = [];
+
+  for (const [version, files] of Object.entries(releases)) {
+    const uploads = files
+      .filter((f) => !f.yanked && f.upload_time_iso_8601)
+      .map((f) => f.upload_time_iso_8601 as string)
+      .sort();
+    if (uploads[0]) dated.push({ version, date: uploads[0] });
+  }
+
+  return dated.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Project URLs by label, with the legacy home page when not listed
+ */
+function projectUrls(
+  info: NonNullable<PypiResponse["info"]>,
+): Record<string, string> {
+  const urls = { ...(info.project_urls || {}) };
+  if (info.home_page && !Object.values(urls).includes(info.home_page)) {
+    urls.Homepage = info.home_page;
+  }
+  return urls;
+}
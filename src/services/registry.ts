@@ -0,0 +1,430 @@
+/**
+ * Tool registry - Stable IDs for tools across days
+ *
+ * Each parsed tool is matched to a registry entry by package, then by repo
+ * URL with a similar name, then by exact name. Matched tools share the
+ * entry's ID, so a tool that shows up under a new package-linked name keeps
+ * its research file, and two different tools with the same name (or from
+ * the same monorepo) get different IDs instead of overwriting each other's
+ * data/tools/<slug>.json.
+ */
+
+import { readFile, writeFile, readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type {
+  DailyUpdate,
+  PackageManager,
+  ParseDiagnostic,
+  RegistryEntry,
+  Tool,
+  ToolRegistry,
+} from "../models/types";
+import { installSpecsFor } from "./install";
+
+// Words too common in tool names to tell tools apart
+const GENERIC_WORDS = [
+  "claude",
+  "code",
+  "plugin",
+  "plugins",
+  "mcp",
+  "server",
+  "skill",
+  "skills",
+  "tool",
+  "tools",
+  "cli",
+  "ai",
+  "the",
+  "for",
+  "and",
+];
+
+// Minimum similarity (0-1) for two name keys to count as the same tool
+const NAME_SIMILARITY = 0.85;
+
+// Shorter name keys must match exactly
+const MIN_FUZZY_LENGTH = 6;
+
+// Registry each manager installs from (claude-mcp names are local to the
+// user's config and git specs are repo URLs, so neither identifies a tool)
+const PACKAGE_REGISTRIES: Partial<Record<PackageManager, string>> = {
+  npm: "npm",
+  bun: "npm",
+  yarn: "npm",
+  pnpm: "npm",
+  npx: "npm",
+  pip: "pypi",
+  pipx: "pypi",
+  uvx: "pypi",
+  cargo: "crates",
+  go: "go",
+  brew: "brew",
+  docker: "docker",
+  "claude-plugin": "claude-plugin",
+};
+
+interface ToolIdentity {
+  repos: string[];
+  packages: string[];
+}
+
+export function registryPath(dataDir: string): string {
+  return join(dataDir, "registry.json");
+}
+
+export async function loadRegistry(dataDir: string): Promise<ToolRegistry> {
+  const path = registryPath(dataDir);
+  if (!existsSync(path)) {
+    return { entries: [], updatedAt: new Date().toISOString() };
+  }
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+export async function saveRegistry(
+  dataDir: string,
+  registry: ToolRegistry,
+): Promise<void> {
+  registry.updatedAt = new Date().toISOString();
+  await writeFile(registryPath(dataDir), JSON.stringify(registry, null, 2));
+}
+
+/**
+ * Give each of a day's tools its registry ID, adding or updating entries
+ * Registering a date again replaces that date's earlier mentions
+ * @returns a slug-collision diagnostic for each tool that could not use its slug
+ */
+export function registerTools(
+  registry: ToolRegistry,
+  date: string,
+  tools: Tool[],
+): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  for (const entry of registry.entries) {
+    entry.dates = entry.dates.filter((d) => d !== date);
+  }
+
+  // Entries already given to a tool today are never reused, so two tools
+  // in one update always get two IDs
+  const claimed = new Set<RegistryEntry>();
+
+  for (const tool of tools) {
+    const identity = toolIdentity(tool);
+    const candidates = registry.entries.filter((e) => !claimed.has(e));
+    let entry =
+      findByIdentity(candidates, tool.name, identity) ||
+      findByName(candidates, tool.name, identity);
+
+    if (!entry) {
+      entry = createEntry(registry, tool.name);
+      const owner = registry.entries.find(
+        (e) =>
+          e !== entry &&
+          (e.id === tool.slug || e.mergedIds?.includes(tool.slug)),
+      );
+      if (owner) {
+        diagnostics.push({
+          kind: "slug-collision",
+          message: `Slug '${tool.slug}' belongs to "${owner.name}"; registered as ${entry.id}`,
+          tool: tool.name,
+        });
+      }
+    }
+
+    claimed.add(entry);
+    addMention(entry, tool, date, identity);
+    tool.id = entry.id;
+  }
+
+  registry.entries = registry.entries.filter((e) => e.dates.length > 0);
+  return diagnostics;
+}
+
+/**
+ * Find an entry by ID (including merged IDs), name or alias
+ */
+export function findEntry(
+  registry: ToolRegistry,
+  query: string,
+): RegistryEntry | undefined {
+  const wanted = query.toLowerCase();
+  return (
+    registry.entries.find(
+      (e) => e.id === wanted || e.mergedIds?.includes(wanted),
+    ) ||
+    registry.entries.find((e) =>
+      e.aliases.some((alias) => alias.toLowerCase() === wanted),
+    )
+  );
+}
+
+/**
+ * Fold one entry into another; the source's ID keeps resolving to the target
+ */
+export function mergeEntries(
+  registry: ToolRegistry,
+  from: RegistryEntry,
+  into: RegistryEntry,
+): void {
+  for (const alias of from.aliases) addAlias(into, alias);
+  into.repos = union(into.repos, from.repos);
+  into.packages = union(into.packages, from.packages);
+  into.mergedIds = union(into.mergedIds || [], [
+    from.id,
+    ...(from.mergedIds || []),
+  ]);
+  setDates(into, union(into.dates, from.dates));
+
+  registry.entries = registry.entries.filter((e) => e !== from);
+}
+
+/**
+ * Add an entry with an unused ID based on the name
+ */
+export function createEntry(
+  registry: ToolRegistry,
+  name: string,
+): RegistryEntry {
+  const base = slugify(name) || "tool";
+  const taken = (id: string) =>
+    registry.entries.some((e) => e.id === id || e.mergedIds?.includes(id));
+
+  let id = base;
+  for (let n = 2; taken(id); n++) id = `${base}-${n}`;
+
+  const entry: RegistryEntry = {
+    id,
+    name,
+    aliases: [],
+    repos: [],
+    packages: [],
+    dates: [],
+    firstSeen: "",
+    lastSeen: "",
+    mentions: 0,
+  };
+  registry.entries.push(entry);
+  return entry;
+}
+
+/**
+ * Recompute an entry's aliases, repos, packages and dates from the tools
+ * that carry its ID (used after a split moves some of them away)
+ */
+export function rebuildEntry(
+  entry: RegistryEntry,
+  mentions: { date: string; tool: Tool }[],
+): void {
+  entry.aliases = [];
+  entry.repos = [];
+  entry.packages = [];
+  entry.dates = [];
+
+  for (const { date, tool } of mentions) {
+    addMention(entry, tool, date, toolIdentity(tool));
+  }
+  if (!entry.aliases.includes(entry.name) && entry.aliases[0]) {
+    entry.name = entry.aliases[0];
+  }
+}
+
+/**
+ * Every parsed update on disk (skipping parse --check expectations)
+ */
+export async function readParsedUpdates(
+  dataDir: string,
+): Promise<{ path: string; update: DailyUpdate }[]> {
+  const updatesDir = join(dataDir, "updates");
+  if (!existsSync(updatesDir)) return [];
+
+  const files = (await readdir(updatesDir))
+    .filter((f) => /^\d{4}-\d{2}-\d{2}\.json$/.test(f))
+    .sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const path = join(updatesDir, file);
+      return { path, update: JSON.parse(await readFile(path, "utf-8")) };
+    }),
+  );
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Repos and packages that identify a tool regardless of its name
+ */
+function toolIdentity(tool: Tool): ToolIdentity {
+  const repos: string[] = [];
+  const packages: string[] = [];
+
+  const urls = (tool.links || [])
+    .filter((link) => link.kind === "repo")
+    .map((link) => link.url);
+  if (tool.githubUrl) urls.push(tool.githubUrl);
+
+  for (const spec of installSpecsFor(tool)) {
+    if (spec.manager === "git") {
+      urls.push(spec.packageId);
+      continue;
+    }
+    const registry = PACKAGE_REGISTRIES[spec.manager];
+    if (registry) {
+      packages.push(`${registry}:${spec.packageId.toLowerCase()}`);
+    }
+  }
+
+  for (const url of urls) {
+    const repo = normalizeRepo(url);
+    if (repo) repos.push(repo);
+  }
+
+  return { repos: union([], repos), packages: union([], packages) };
+}
+
+/**
+ * Entry with the same package, or the same repo and a similar name.
+ * A repo alone isn't enough: plugin marketplaces keep many tools in one
+ * monorepo.
+ */
+function findByIdentity(
+  candidates: RegistryEntry[],
+  name: string,
+  identity: ToolIdentity,
+): RegistryEntry | undefined {
+  const key = nameKey(name);
+  return (
+    candidates.find((e) =>
+      e.packages.some((pkg) => identity.packages.includes(pkg)),
+    ) ||
+    candidates.find(
+      (e) =>
+        e.repos.some((repo) => identity.repos.includes(repo)) &&
+        e.aliases.some(
+          (alias) =>
+            alias.toLowerCase() === name.toLowerCase() ||
+            sameKey(nameKey(alias), key),
+        ),
+    )
+  );
+}
+
+/**
+ * Entry with exactly the same name, unless its repos or packages say it's
+ * a different tool. Similar names only match with a shared repo, since the
+ * generic words left out of name keys can leave little to compare.
+ */
+function findByName(
+  candidates: RegistryEntry[],
+  name: string,
+  identity: ToolIdentity,
+): RegistryEntry | undefined {
+  return candidates.find(
+    (e) =>
+      !conflicts(e.repos, identity.repos) &&
+      !conflicts(e.packages, identity.packages) &&
+      e.aliases.some((alias) => alias.toLowerCase() === name.toLowerCase()),
+  );
+}
+
+/**
+ * Whether both sides have links and none are shared
+ */
+function conflicts(a: string[], b: string[]): boolean {
+  return a.length > 0 && b.length > 0 && !a.some((x) => b.includes(x));
+}
+
+function addMention(
+  entry: RegistryEntry,
+  tool: Tool,
+  date: string,
+  identity: ToolIdentity,
+): void {
+  addAlias(entry, tool.name);
+  entry.repos = union(entry.repos, identity.repos);
+  entry.packages = union(entry.packages, identity.packages);
+  setDates(entry, union(entry.dates, [date]));
+}
+
+function addAlias(entry: RegistryEntry, name: string): void {
+  if (!entry.aliases.some((a) => a.toLowerCase() === name.toLowerCase())) {
+    entry.aliases.push(name);
+  }
+}
+
+function setDates(entry: RegistryEntry, dates: string[]): void {
+  entry.dates = [...dates].sort();
+  entry.firstSeen = entry.dates[0] || "";
+  entry.lastSeen = entry.dates[entry.dates.length - 1] || "";
+  entry.mentions = entry.dates.length;
+}
+
+/**
+ * github.com/Owner/Repo.git → github.com/owner/repo
+ */
+function normalizeRepo(url: string): string | undefined {
+  if (!URL.canParse(url)) return undefined;
+  const parsed = new URL(url);
+  const [owner, repo] = parsed.pathname.split("/").filter(Boolean);
+  if (!owner || !repo) return undefined;
+
+  const host = parsed.hostname.replace(/^www\./, "");
+  return `${host}/${owner}/${repo.replace(/\.git$/, "")}`.toLowerCase();
+}
+
+/**
+ * Name without spacing or the words every Claude tool shares:
+ * "Claude Code Memory Plugin" and "claude-memory" both become "memory",
+ * "Agent Kit" and "AgentKit" both become "agentkit"
+ */
+export function nameKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const distinctive = words.filter((w) => !GENERIC_WORDS.includes(w));
+  return (distinctive.length > 0 ? distinctive : words).join("");
+}
+
+function sameKey(a: string, b: string): boolean {
+  if (a === b) return a.length > 0;
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH) return false;
+  return (
+    1 - editDistance(a, b) / Math.max(a.length, b.length) >= NAME_SIMILARITY
+  );
+}
+
+/**
+ * Levenshtein distance
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution =
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(
+        Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          substitution,
+        ),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}
+
+function union(a: string[], b: string[]): string[] {
+  return [...new Set([...a, ...b])];
+}
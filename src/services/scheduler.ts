@@ -0,0 +1,72 @@
+/**
+ * Job scheduler - Run jobs with bounded concurrency and rate-limit awareness
+ *
+ * Each job names the hosts it will call. When a host's budget runs low,
+ * jobs that don't need it are started first; when it is exhausted, jobs
+ * that need it wait for the reset (see waitForBudget).
+ */
+
+import { budgetLow, waitForBudget } from "./http";
+
+export interface Job<T> {
+  id: string;
+  hosts: string[]; // Hosts the job will request from
+  run: () => Promise<T>;
+}
+
+export type JobResult<T> =
+  | { job: Job<T>; value: T }
+  | { job: Job<T>; error: unknown };
+
+interface SchedulerOptions<T> {
+  concurrency: number;
+  onStart?: (job: Job<T>) => void;
+  onDone?: (result: JobResult<T>) => void;
+  onWait?: (host: string, until: Date) => void; // Paused for a rate limit
+}
+
+/**
+ * Run every job, at most `concurrency` at a time
+ * @returns one result per job, in completion order
+ */
+export async function runJobs<T>(
+  jobs: Job<T>[],
+  options: SchedulerOptions<T>,
+): Promise<JobResult<T>[]> {
+  const pending = [...jobs];
+  const results: JobResult<T>[] = [];
+
+  const worker = async () => {
+    for (let job = takeNext(pending); job; job = takeNext(pending)) {
+      let result: JobResult<T>;
+      try {
+        for (const host of job.hosts) {
+          await waitForBudget(host, (until) =>
+            options.onWait?.(host, until),
+          ).catch(() => {
+            // Too long to wait: run anyway, its requests to the host fail fast
+          });
+        }
+        options.onStart?.(job);
+        result = { job, value: await job.run() };
+      } catch (error) {
+        result = { job, error };
+      }
+      results.push(result);
+      options.onDone?.(result);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, jobs.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Next job to start: the first whose hosts all have budget left, or the
+ * first in line when every job needs a low host
+ */
+function takeNext<T>(pending: Job<T>[]): Job<T> | undefined {
+  const index = pending.findIndex((job) => !job.hosts.some(budgetLow));
+  return pending.splice(Math.max(index, 0), 1)[0];
+}
@@ -0,0 +1,427 @@
+/**
+ * Supply-chain checks - Risks of installing a tool's npm and PyPI packages
+ *
+ * Flags install-time code (npm lifecycle scripts, PyPI releases without a
+ * wheel), young packages, a single maintainer, maintainers added recently,
+ * names one typo away from a popular package (config/popular-packages.json)
+ * and known advisories from a local OSV database. The OSV database is a
+ * JSON file of advisories (an array, or OSV's {"vulns": [...]}) or a
+ * directory of per-advisory JSON files, as in OSV's bulk downloads.
+ */
+
+import { readFile, readdir, stat } from "fs/promises";
+import { join } from "path";
+import type {
+  NpmData,
+  PypiData,
+  SecurityFinding,
+  SecurityFindingKind,
+  SecurityReport,
+  SecuritySeverity,
+  ToolResearch,
+} from "../models/types";
+import { normalizeName } from "./pypi";
+import { editDistance } from "./registry";
+
+export const POPULAR_PACKAGES_PATH = join(
+  import.meta.dir,
+  "../../config/popular-packages.json",
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Package age below which it's flagged, and flagged as high risk
+const YOUNG_DAYS = 30;
+const VERY_YOUNG_DAYS = 7;
+
+// How far back a new maintainer counts as a recent change
+const MAINTAINER_CHANGE_DAYS = 90;
+
+// Shortest popular name a lookalike is checked against (short names are
+// a typo away from too many legitimate packages)
+const MIN_LOOKALIKE_LENGTH = 5;
+
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+}
+
+interface OsvRecord {
+  id: string;
+  summary?: string;
+  aliases?: string[];
+  affected?: {
+    package?: { ecosystem?: string; name?: string };
+    versions?: string[];
+    ranges?: { type?: string; events?: OsvEvent[] }[];
+  }[];
+  database_specific?: { severity?: string };
+}
+
+interface PopularPackages {
+  npm: string[];
+  pypi: string[];
+}
+
+let advisoryPath: string | undefined = process.env.DTU_OSV_DB || undefined;
+let advisories: Promise<OsvRecord[]> | undefined;
+let popular: Promise<PopularPackages> | undefined;
+
+/**
+ * Check advisories in this OSV file or directory (default: DTU_OSV_DB)
+ */
+export function setAdvisoryDatabase(path: string | undefined): void {
+  advisoryPath = path;
+  advisories = undefined;
+}
+
+/**
+ * Load the OSV database once; throws if it can't be read
+ * @returns the number of advisories, or undefined with no database set
+ */
+export async function loadAdvisories(): Promise<number | undefined> {
+  if (!advisoryPath) return undefined;
+  return (await advisoryRecords()).length;
+}
+
+/**
+ * Supply-chain findings for a tool's npm and PyPI packages
+ * @returns undefined when the tool has neither
+ */
+export async function analyzeSecurity(
+  research: ToolResearch,
+): Promise<SecurityReport | undefined> {
+  const { npm, pypi } = research;
+  if (!npm && !pypi) return undefined;
+
+  const now = Date.parse(research.researchedAt);
+  const popularNames = await loadPopular();
+  const records = await advisoryRecords();
+  const findings: SecurityFinding[] = [];
+
+  if (npm) {
+    findings.push(
+      ...npmFindings(npm, now, popularNames.npm),
+      ...advisoryFindings(records, "npm", npm.packageName, npm.version),
+    );
+  }
+  if (pypi) {
+    findings.push(
+      ...pypiFindings(pypi, now, popularNames.pypi),
+      ...advisoryFindings(records, "PyPI", pypi.packageName, pypi.version),
+    );
+  }
+
+  return {
+    findings,
+    advisoryDatabase: advisoryPath,
+    checkedAt: research.researchedAt,
+  };
+}
+
+function npmFindings(
+  npm: NpmData,
+  now: number,
+  popularNames: string[],
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const add = (
+    kind: SecurityFindingKind,
+    severity: SecuritySeverity,
+    message: string,
+  ) =>
+    findings.push({
+      kind,
+      severity,
+      registry: "npm",
+      packageName: npm.packageName,
+      message,
+    });
+
+  for (const [name, script] of Object.entries(npm.installScripts || {})) {
+    add(
+      "install-script",
+      "medium",
+      `Runs a ${name} script on install: ${script}`,
+    );
+  }
+  const age = ageFinding(npm.createdAt, now);
+  if (age) add("young-package", age.severity, age.message);
+  if (npm.maintainers?.length === 1) {
+    add(
+      "single-maintainer",
+      "low",
+      `Single maintainer (${npm.maintainers[0]})`,
+    );
+  }
+  for (const { name, date } of npm.maintainersAdded || []) {
+    if (now - Date.parse(date) < MAINTAINER_CHANGE_DAYS * DAY) {
+      add(
+        "maintainer-change",
+        "medium",
+        `Maintainer ${name} added ${date.slice(0, 10)}`,
+      );
+    }
+  }
+  const lookalike = npmLookalike(npm.packageName, popularNames);
+  if (lookalike) {
+    add(
+      "typosquat",
+      "high",
+      `Name is close to the popular package ${lookalike}`,
+    );
+  }
+
+  return findings;
+}
+
+function pypiFindings(
+  pypi: PypiData,
+  now: number,
+  popularNames: string[],
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const add = (
+    kind: SecurityFindingKind,
+    severity: SecuritySeverity,
+    message: string,
+  ) =>
+    findings.push({
+      kind,
+      severity,
+      registry: "PyPI",
+      packageName: pypi.packageName,
+      message,
+    });
+
+  if (pypi.sdistOnly) {
+    add(
+      "sdist-only",
+      "low",
+      `No wheel for ${pypi.version}, so installing runs its build`,
+    );
+  }
+  const age = ageFinding(pypi.firstReleased, now);
+  if (age) add("young-package", age.severity, age.message);
+  const lookalike = pypiLookalike(pypi.packageName, popularNames);
+  if (lookalike) {
+    add(
+      "typosquat",
+      "high",
+      `Name is close to the popular package ${lookalike}`,
+    );
+  }
+
+  return findings;
+}
+
+function ageFinding(
+  createdAt: string | undefined,
+  now: number,
+): { severity: SecuritySeverity; message: string } | undefined {
+  const created = createdAt ? Date.parse(createdAt) : NaN;
+  if (isNaN(created)) return undefined;
+
+  const days = Math.floor((now - created) / DAY);
+  if (days >= YOUNG_DAYS) return undefined;
+  return {
+    severity: days < VERY_YOUNG_DAYS ? "high" : "medium",
+    message: `First published ${days} days ago`,
+  };
+}
+
+/**
+ * Popular npm package the name imitates: one or two edits away, the same
+ * name with different separators, or a scoped package's name without its
+ * scope or under another one
+ */
+function npmLookalike(
+  name: string,
+  popularNames: string[],
+): string | undefined {
+  if (popularNames.includes(name)) return undefined;
+  const unscoped = (n: string) => n.replace(/^@[^/]+\//, "");
+
+  return popularNames.find(
+    (p) =>
+      unscoped(p).length >= MIN_LOOKALIKE_LENGTH &&
+      ((p.startsWith("@") && unscoped(p) === unscoped(name)) ||
+        squash(p) === squash(name) ||
+        closeTo(name, p)),
+  );
+}
+
+/**
+ * Popular PyPI package the name imitates (PyPI already treats "-", "_"
+ * and "." as the same, so only edits count)
+ */
+function pypiLookalike(
+  name: string,
+  popularNames: string[],
+): string | undefined {
+  const normalized = normalizeName(name);
+  if (popularNames.includes(normalized)) return undefined;
+  return popularNames.find((p) => closeTo(normalized, p));
+}
+
+/**
+ * A few edits away, or two neighbouring letters swapped ("axois")
+ */
+function closeTo(name: string, popularName: string): boolean {
+  if (popularName.length < MIN_LOOKALIKE_LENGTH) return false;
+  const allowed = popularName.length >= 10 ? 2 : 1;
+  return (
+    editDistance(name, popularName) <= allowed || swapped(name, popularName)
+  );
+}
+
+function swapped(a: string, b: string): boolean {
+  if (a.length !== b.length || a === b) return false;
+  const diff = [...a].flatMap((c, i) => (c === b[i] ? [] : [i]));
+  const [i, j] = diff;
+  return (
+    diff.length === 2 &&
+    i !== undefined &&
+    j === i + 1 &&
+    a[i] === b[j] &&
+    a[j] === b[i]
+  );
+}
+
+function squash(name: string): string {
+  return name.toLowerCase().replace(/[@/._-]/g, "");
+}
+
+/**
+ * Advisories in the OSV database that affect this version
+ */
+function advisoryFindings(
+  records: OsvRecord[],
+  ecosystem: "npm" | "PyPI",
+  packageName: string,
+  version: string,
+): SecurityFinding[] {
+  const key = (n: string) => (ecosystem === "PyPI" ? normalizeName(n) : n);
+  const wanted = key(packageName);
+
+  return records
+    .filter((record) =>
+      (record.affected || []).some(
+        (a) =>
+          a.package?.ecosystem === ecosystem &&
+          a.package.name !== undefined &&
+          key(a.package.name) === wanted &&
+          (a.versions?.includes(version) ||
+            (a.ranges || []).some(
+              (r) => r.type !== "GIT" && inRange(version, r.events || []),
+            )),
+      ),
+    )
+    .map((record) => ({
+      kind: "advisory",
+      severity: advisorySeverity(record),
+      registry: ecosystem,
+      packageName,
+      message: `${record.id}${record.summary ? `: ${record.summary}` : ""} (affects ${version})`,
+      advisoryId: record.id,
+    }));
+}
+
+/**
+ * Whether an OSV range's events put the version in an affected span
+ */
+function inRange(version: string, events: OsvEvent[]): boolean {
+  const at = (e: OsvEvent) => e.introduced ?? e.fixed ?? e.last_affected ?? "0";
+  const sorted = [...events].sort((a, b) => compareVersions(at(a), at(b)));
+
+  let affected = false;
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (compareVersions(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compareVersions(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compareVersions(version, event.last_affected) > 0) affected = false;
+    }
+  }
+  return affected;
+}
+
+/**
+ * Compare dotted versions, with pre-releases ("1.0.0-beta.1", "1.0rc1")
+ * before their release and post-releases ("1.0.post1") after it
+ */
+function compareVersions(a: string, b: string): number {
+  const parse = (v: string) => {
+    const match = v
+      .replace(/^v/, "")
+      .split("+")[0]
+      ?.match(/^(\d+(?:\.\d+)*)[-.]?(.*)$/);
+    return {
+      parts: (match?.[1] || "0").split(".").map(Number),
+      suffix: match?.[2] || "",
+    };
+  };
+  const pa = parse(a);
+  const pb = parse(b);
+
+  for (let i = 0; i < Math.max(pa.parts.length, pb.parts.length); i++) {
+    const diff = (pa.parts[i] ?? 0) - (pb.parts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  const rank = (suffix: string) =>
+    !suffix ? 0 : /^post/.test(suffix) ? 1 : -1;
+  return (
+    rank(pa.suffix) - rank(pb.suffix) ||
+    pa.suffix.localeCompare(pb.suffix, undefined, { numeric: true })
+  );
+}
+
+function advisorySeverity(record: OsvRecord): SecuritySeverity {
+  const severity = record.database_specific?.severity?.toUpperCase();
+  if (severity === "CRITICAL" || severity === "HIGH") return "high";
+  if (severity === "LOW") return "low";
+  return "medium";
+}
+
+function advisoryRecords(): Promise<OsvRecord[]> {
+  if (!advisoryPath) return Promise.resolve([]);
+  advisories ??= readAdvisories(advisoryPath);
+  return advisories;
+}
+
+async function readAdvisories(path: string): Promise<OsvRecord[]> {
+  try {
+    if ((await stat(path)).isDirectory()) {
+      const files = (await readdir(path)).filter((f) => f.endsWith(".json"));
+      const records: OsvRecord[] = [];
+      for (const file of files) {
+        records.push(
+          ...toRecords(JSON.parse(await readFile(join(path, file), "utf-8"))),
+        );
+      }
+      return records;
+    }
+    return toRecords(JSON.parse(await readFile(path, "utf-8")));
+  } catch (error) {
+    throw new Error(
+      `Can't read OSV database ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+function toRecords(data: unknown): OsvRecord[] {
+  if (Array.isArray(data)) return data;
+  const { vulns } = data as { vulns?: OsvRecord[] };
+  if (Array.isArray(vulns)) return vulns;
+  return [data as OsvRecord];
+}
+
+async function loadPopular(): Promise<PopularPackages> {
+  popular ??= readFile(POPULAR_PACKAGES_PATH, "utf-8").then(
+    (text) => JSON.parse(text) as PopularPackages,
+  );
+  return popular;
+}
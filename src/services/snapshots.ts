@@ -0,0 +1,170 @@
+/**
+ * Research snapshots - Research stored per update date
+ *
+ * Each research run writes data/tools/<date>/<id>.json (and .md), so
+ * re-scoring an old date uses the numbers gathered for that date.
+ * data/tools/latest.json points every tool at its newest snapshot.
+ */
+
+import { readFile, writeFile, mkdir, readdir, rename } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type { Tool, ToolResearch } from "../models/types";
+
+const DATE_DIR = /^\d{4}-\d{2}-\d{2}$/;
+
+// Tool ID → date of its newest snapshot
+type LatestIndex = Record<string, string>;
+
+// Index updates run one at a time; research saves several tools at once
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * File name for a tool's research (registry ID, or slug for older updates)
+ */
+export function researchId(tool: Tool): string {
+  return tool.id || tool.slug;
+}
+
+export function snapshotDir(dataDir: string, date: string): string {
+  return join(dataDir, "tools", date);
+}
+
+/**
+ * Write a tool's research for a date and move its latest pointer forward
+ */
+export async function saveSnapshot(
+  dataDir: string,
+  date: string,
+  research: ToolResearch,
+  markdown: string,
+): Promise<void> {
+  const dir = snapshotDir(dataDir, date);
+  await mkdir(dir, { recursive: true });
+
+  const id = researchId(research.tool);
+  await writeFile(join(dir, `${id}.md`), markdown);
+  await writeFile(join(dir, `${id}.json`), JSON.stringify(research, null, 2));
+
+  // Re-researching an old date must not move the pointer backwards
+  await updateLatestIndex(dataDir, (latest) => {
+    if (latest[id] && latest[id] > date) return false;
+    latest[id] = date;
+    return true;
+  });
+}
+
+/**
+ * A tool's research for one date
+ * Falls back to the flat data/tools/<id>.json written before snapshots,
+ * flagged with legacy: true since its date is unknown
+ */
+export async function loadSnapshot(
+  dataDir: string,
+  date: string,
+  tool: Tool,
+): Promise<{ research: ToolResearch; legacy: boolean } | undefined> {
+  const id = researchId(tool);
+  const path = join(snapshotDir(dataDir, date), `${id}.json`);
+  if (existsSync(path)) {
+    return {
+      research: JSON.parse(await readFile(path, "utf-8")),
+      legacy: false,
+    };
+  }
+
+  const legacyPath = join(dataDir, "tools", `${id}.json`);
+  if (existsSync(legacyPath)) {
+    return {
+      research: JSON.parse(await readFile(legacyPath, "utf-8")),
+      legacy: true,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Dates with a snapshot for a tool, oldest first
+ */
+export async function snapshotDates(
+  dataDir: string,
+  id: string,
+): Promise<string[]> {
+  const toolsDir = join(dataDir, "tools");
+  if (!existsSync(toolsDir)) return [];
+
+  return (await readdir(toolsDir))
+    .filter(
+      (name) =>
+        DATE_DIR.test(name) && existsSync(join(toolsDir, name, `${id}.json`)),
+    )
+    .sort();
+}
+
+/**
+ * Rename a tool's snapshots to another ID (after `tools merge`)
+ * @returns dates where both IDs had research, which are left alone
+ */
+export async function moveSnapshots(
+  dataDir: string,
+  fromId: string,
+  intoId: string,
+): Promise<string[]> {
+  const conflicts: string[] = [];
+
+  for (const date of await snapshotDates(dataDir, fromId)) {
+    const dir = snapshotDir(dataDir, date);
+    if (existsSync(join(dir, `${intoId}.json`))) {
+      conflicts.push(date);
+      continue;
+    }
+    for (const ext of ["json", "md"]) {
+      const source = join(dir, `${fromId}.${ext}`);
+      if (existsSync(source))
+        await rename(source, join(dir, `${intoId}.${ext}`));
+    }
+  }
+
+  await updateLatestIndex(dataDir, (latest) => {
+    const moved = latest[fromId];
+    if (!moved) return false;
+    if (!latest[intoId] || latest[intoId] < moved) latest[intoId] = moved;
+    if (conflicts.length === 0) delete latest[fromId];
+    return true;
+  });
+
+  return conflicts;
+}
+
+/**
+ * Every tool ID with the date of its newest snapshot
+ */
+export async function readLatestIndex(dataDir: string): Promise<LatestIndex> {
+  const path = latestPath(dataDir);
+  if (!existsSync(path)) return {};
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+/**
+ * Read, change and write latest.json, queued behind any other update
+ * @param change edits the index in place, returning false to leave the file alone
+ */
+function updateLatestIndex(
+  dataDir: string,
+  change: (latest: LatestIndex) => boolean,
+): Promise<void> {
+  const update = indexQueue.then(async () => {
+    const latest = await readLatestIndex(dataDir);
+    if (change(latest)) {
+      await writeFile(latestPath(dataDir), JSON.stringify(latest, null, 2));
+    }
+  });
+  // A failed update mustn't block the ones queued after it
+  indexQueue = update.catch(() => {});
+  return update;
+}
+
+function latestPath(dataDir: string): string {
+  return join(dataDir, "tools", "latest.json");
+}
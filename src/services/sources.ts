@@ -0,0 +1,230 @@
+/**
+ * Capture sources - Read daily update content from local inputs
+ *
+ * Supports:
+ * - Markdown/text files and directories of saved digests
+ * - Piped stdin (no interactive prompt)
+ * - Saved HTML pages (converted to Markdown)
+ * - RSS/Atom feed files
+ */
+
+import { readFile, readdir, stat } from "fs/promises";
+import { extname, join } from "path";
+import type { CaptureSourceKind } from "../models/types";
+import { decodeEntities, htmlToMarkdown } from "./html";
+
+/**
+ * A place the daily update content can be read from
+ */
+export interface CaptureSource {
+  kind: CaptureSourceKind;
+  location?: string; // File path or URL, if any
+  read(): Promise<CapturedContent>;
+}
+
+export interface CapturedContent {
+  content: string; // Markdown handed to parse
+  html?: string; // Raw HTML the Markdown was converted from, if any
+}
+
+const HTML_EXTENSIONS = [".html", ".htm"];
+const FEED_EXTENSIONS = [".xml", ".rss", ".atom"];
+const TEXT_EXTENSIONS = [".md", ".markdown", ".txt", ".eml"];
+
+/**
+ * Pick a source for a local path based on what it is
+ * @param path - File or directory path
+ * @param date - Capture date (YYYY-MM-DD), used to pick a feed entry
+ */
+export async function inputSource(
+  path: string,
+  date: string,
+): Promise<CaptureSource> {
+  const info = await stat(path);
+  if (info.isDirectory()) {
+    return directorySource(path, date);
+  }
+
+  const ext = extname(path).toLowerCase();
+  if (HTML_EXTENSIONS.includes(ext)) return htmlSource(path);
+  if (FEED_EXTENSIONS.includes(ext)) return feedSource(path, date);
+  return fileSource(path);
+}
+
+/**
+ * Markdown or plain text file (saved emails have their headers dropped)
+ */
+export function fileSource(path: string): CaptureSource {
+  return {
+    kind: "file",
+    location: path,
+    async read() {
+      const content = await readFile(path, "utf-8");
+      return {
+        content:
+          extname(path).toLowerCase() === ".eml"
+            ? stripEmailHeaders(content)
+            : content,
+      };
+    },
+  };
+}
+
+/**
+ * Directory of saved digests - every supported file, in name order
+ */
+export function directorySource(path: string, date: string): CaptureSource {
+  return {
+    kind: "directory",
+    location: path,
+    async read() {
+      const supported = [
+        ...TEXT_EXTENSIONS,
+        ...HTML_EXTENSIONS,
+        ...FEED_EXTENSIONS,
+      ];
+      const files = (await readdir(path))
+        .filter((f) => supported.includes(extname(f).toLowerCase()))
+        .sort();
+
+      const parts: string[] = [];
+      for (const file of files) {
+        const source = await inputSource(join(path, file), date);
+        const { content } = await source.read();
+        if (content.trim().length > 0) parts.push(content.trim());
+      }
+
+      return { content: parts.join("\n\n") };
+    },
+  };
+}
+
+/**
+ * Piped stdin, read until EOF without prompting
+ */
+export function stdinSource(): CaptureSource {
+  return {
+    kind: "stdin",
+    read: async () => ({ content: await readStdin() }),
+  };
+}
+
+/**
+ * Saved HTML page (e.g. "Save Page As" from the browser)
+ */
+export function htmlSource(path: string): CaptureSource {
+  return {
+    kind: "html",
+    location: path,
+    async read() {
+      const html = await readFile(path, "utf-8");
+      return { content: htmlToMarkdown(html), html };
+    },
+  };
+}
+
+/**
+ * RSS or Atom feed file - uses the entry published on the capture date,
+ * or the newest entry if none matches
+ */
+export function feedSource(path: string, date: string): CaptureSource {
+  return {
+    kind: "feed",
+    location: path,
+    async read() {
+      const entries = parseFeed(await readFile(path, "utf-8"));
+      const entry =
+        entries.find((e) => e.published?.startsWith(date)) || entries[0];
+      if (!entry) return { content: "" };
+
+      const body = htmlToMarkdown(entry.content);
+      return {
+        content: entry.title ? `# ${entry.title}\n\n${body}` : body,
+        html: entry.content,
+      };
+    },
+  };
+}
+
+/**
+ * Read all of stdin until EOF
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: string[] = [];
+  const decoder = new TextDecoder();
+  const reader = Bun.stdin.stream().getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return chunks.join("");
+}
+
+interface FeedEntry {
+  title: string;
+  content: string;
+  published?: string;
+}
+
+/**
+ * Extract entries from RSS <item> or Atom <entry> elements
+ */
+function parseFeed(xml: string): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+  const blocks = xml.match(/<(item|entry)\b[^>]*>[^]*?<\/\1>/gi) || [];
+
+  for (const block of blocks) {
+    const title = readElement(block, ["title"]) || "";
+    const content =
+      readElement(block, [
+        "content:encoded",
+        "content",
+        "description",
+        "summary",
+      ]) || "";
+    const published = readElement(block, ["pubDate", "published", "updated"]);
+
+    entries.push({
+      title: htmlToMarkdown(title),
+      content,
+      published: published ? toIsoDate(published) : undefined,
+    });
+  }
+
+  return entries;
+}
+
+function readElement(block: string, names: string[]): string | undefined {
+  for (const name of names) {
+    const escaped = name.replace(":", "\\:");
+    const match = block.match(
+      new RegExp(`<${escaped}\\b[^>]*>([^]*?)<\\/${escaped}>`, "i"),
+    );
+    if (match && match[1] !== undefined) {
+      const cdata = match[1].match(/^\s*<!\[CDATA\[([^]*?)\]\]>\s*$/);
+      // Non-CDATA feed content is entity-escaped HTML
+      return cdata ? cdata[1] : decodeEntities(match[1]);
+    }
+  }
+  return undefined;
+}
+
+function toIsoDate(value: string): string {
+  const parsed = new Date(value.trim());
+  return isNaN(parsed.getTime()) ? value.trim() : parsed.toISOString();
+}
+
+function stripEmailHeaders(content: string): string {
+  const normalized = content.replace(/\r\n/g, "\n");
+  // Only strip when the file actually starts with RFC 822 style headers
+  if (!/^[\w-]+:\s/.test(normalized)) return normalized;
+  const bodyStart = normalized.indexOf("\n\n");
+  return bodyStart === -1 ? normalized : normalized.slice(bodyStart + 2);
+}
@@ -0,0 +1,84 @@
+/**
+ * Tracked Grok tasks - Which tasks to capture and where their data lives
+ *
+ * The first tracked task uses the top-level data/ directory, so existing
+ * single-task setups keep working. Every other task gets its own
+ * data/tasks/<slug>/ directory with the same layout.
+ */
+
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import type { TrackedTask } from "../models/types";
+
+const DATA_DIR = join(import.meta.dir, "../../data");
+
+// Override by writing a JSON array of tasks to this file
+const TASKS_PATH = join(DATA_DIR, "tasks.json");
+
+const DEFAULT_TASKS: TrackedTask[] = [
+  {
+    name: "Daily Claude tools",
+    slug: "daily-claude-tools",
+    match: "Daily Claude",
+  },
+];
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Load tracked tasks from data/tasks.json, falling back to the default task
+ */
+export async function loadTrackedTasks(): Promise<TrackedTask[]> {
+  if (!existsSync(TASKS_PATH)) {
+    return DEFAULT_TASKS;
+  }
+
+  const tasks: TrackedTask[] = JSON.parse(await readFile(TASKS_PATH, "utf-8"));
+  if (!Array.isArray(tasks) || tasks.length === 0) {
+    throw new Error(`No tasks defined in ${TASKS_PATH}`);
+  }
+
+  for (const task of tasks) {
+    // Slugs become directory names
+    if (!task.slug || !SLUG_PATTERN.test(task.slug)) {
+      throw new Error(`Invalid task slug in ${TASKS_PATH}: ${task.slug}`);
+    }
+    if (!task.match) task.match = task.name;
+  }
+
+  return tasks;
+}
+
+/**
+ * Find a tracked task by slug or name (defaults to the first task)
+ */
+export async function resolveTask(nameOrSlug?: string): Promise<TrackedTask> {
+  const tasks = await loadTrackedTasks();
+  if (!nameOrSlug) return tasks[0] as TrackedTask;
+
+  const query = nameOrSlug.toLowerCase();
+  const task = tasks.find(
+    (t) => t.slug === query || t.name.toLowerCase() === query,
+  );
+  if (!task) {
+    const known = tasks.map((t) => t.slug).join(", ");
+    throw new Error(`Unknown task '${nameOrSlug}' (tracked: ${known})`);
+  }
+
+  return task;
+}
+
+/**
+ * Data directory for a task's updates, research, scores and reports
+ * @param taskSlug - omitted for the primary (first) task
+ */
+export async function taskDataDir(taskSlug?: string): Promise<string> {
+  if (!taskSlug) return DATA_DIR;
+
+  const tasks = await loadTrackedTasks();
+  const task = await resolveTask(taskSlug);
+  return task.slug === tasks[0]?.slug
+    ? DATA_DIR
+    : join(DATA_DIR, "tasks", task.slug);
+}
@@ -0,0 +1,97 @@
+/**
+ * Capture smoke test - Grok Tasks pages served by a local stand-in
+ *
+ * GROK_BASE_URL is read when grok.ts loads, so the server starts first.
+ * The browser steps need a launchable Chromium (see `doctor`) and are
+ * skipped without one.
+ */
+
+import { afterAll, expect, test } from "bun:test";
+import type { Browser } from "puppeteer";
+import type { TrackedTask } from "../src/models/types";
+
+const TASKS_PAGE = `<!doctype html>
+<main>
+  <a href="/tasks/other">Weekly news digest</a>
+  <a href="/tasks/daily">Daily Claude tools</a>
+</main>`;
+
+const TASK_PAGE = `<!doctype html>
+<main>
+  <a href="/tasks/daily/runs/1"><time datetime="2026-01-07">Jan 7</time></a>
+  <a href="/tasks/daily/runs/2" data-date="2026-01-06">Yesterday</a>
+  <article>
+    <h2>Daily Claude Tools</h2>
+    <p><strong>Memory Bank</strong> - Persistent memory for Claude sessions</p>
+    <p>Install: <code>npm install -g @acme/memory-bank</code></p>
+  </article>
+</main>`;
+
+const server = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const page: Record<string, string> = {
+      "/tasks": TASKS_PAGE,
+      "/tasks/daily": TASK_PAGE,
+    };
+    const html = page[new URL(req.url).pathname];
+    return html
+      ? new Response(html, { headers: { "Content-Type": "text/html" } })
+      : new Response("Not found", { status: 404 });
+  },
+});
+
+const base = `http://localhost:${server.port}`;
+process.env.GROK_BASE_URL = `${base}/`;
+
+const {
+  GROK_TASKS_URL,
+  extractTaskContent,
+  findTaskUrl,
+  launchBrowser,
+  listTaskRuns,
+} = await import("../src/services/grok");
+
+const browser: Browser | undefined = await launchBrowser(true).catch(
+  () => undefined,
+);
+
+afterAll(async () => {
+  await browser?.close();
+  server.stop(true);
+});
+
+const task: TrackedTask = {
+  name: "Daily Claude tools",
+  slug: "daily-claude-tools",
+  match: "Daily Claude",
+};
+
+test("points captures at GROK_BASE_URL", () => {
+  expect(GROK_TASKS_URL).toBe(`${base}/tasks`);
+});
+
+test.skipIf(!browser)("finds the tracked task and its content", async () => {
+  const page = await (browser as Browser).newPage();
+  await page.goto(GROK_TASKS_URL, { waitUntil: "networkidle2" });
+
+  const taskUrl = await findTaskUrl(page, task);
+  expect(taskUrl).toBe(`${base}/tasks/daily`);
+
+  await page.goto(taskUrl as string, { waitUntil: "networkidle2" });
+  const { content, selector } = await extractTaskContent(page);
+
+  expect(selector).toBe("article");
+  expect(content).toContain("Memory Bank");
+  expect(content).toContain("npm install -g @acme/memory-bank");
+});
+
+test.skipIf(!browser)("lists past runs by date", async () => {
+  const page = await (browser as Browser).newPage();
+  await page.goto(`${base}/tasks/daily`, { waitUntil: "networkidle2" });
+
+  const runs = await listTaskRuns(page);
+
+  expect(runs.get("2026-01-07")).toBe(`${base}/tasks/daily/runs/1`);
+  expect(runs.get("2026-01-06")).toBe(`${base}/tasks/daily/runs/2`);
+});
@@ -0,0 +1,127 @@
+/**
+ * Cassette round trips - record against a local server, replay without it
+ *
+ * The GitHub replay runs in a fresh process, as a real --offline run does,
+ * so nothing prefetched while recording can stand in for the cassette.
+ */
+
+import { afterAll, expect, test } from "bun:test";
+import { rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const STARS: Record<string, number> = { alpha: 10, beta: 20 };
+const requests: string[] = [];
+let echoes = 0;
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const path = new URL(req.url).pathname;
+    requests.push(`${req.method} ${path}`);
+
+    if (path === "/echo") return Response.json({ echo: ++echoes });
+    if (path === "/gh/graphql") {
+      // Answer every aliased repository in the query
+      const { query } = (await req.json()) as { query: string };
+      const data: Record<string, unknown> = {};
+      for (const [, alias, repo] of query.matchAll(
+        /(r\d+): repository\(owner: "[^"]+", name: "([^"]+)"\)/g,
+      )) {
+        data[alias as string] = {
+          stargazerCount: STARS[repo as string],
+          pushedAt: "2026-01-05T00:00:00Z",
+          createdAt: "2025-06-01T00:00:00Z",
+        };
+      }
+      return Response.json({ data });
+    }
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+const root = join(import.meta.dir, "..");
+const base = `http://localhost:${server.port}`;
+process.env.DTU_GITHUB_API = `${base}/gh`;
+process.env.GITHUB_TOKEN = "test-token"; // Record over GraphQL
+
+const {
+  CASSETTES_DIR,
+  CassetteMissError,
+  replayedAt,
+  saveCassette,
+  setupCassette,
+} = await import("../src/services/cassette");
+const { cachedFetch, setCacheMode } = await import("../src/services/http");
+const { fetchGitHubData, prefetchGitHubData, setActivityDate } =
+  await import("../src/services/github");
+
+const cassette = `test-${process.pid}`;
+const scriptPath = join(tmpdir(), `${cassette}-replay.ts`);
+
+setCacheMode("off");
+setActivityDate("2026-01-07");
+
+afterAll(async () => {
+  server.stop(true);
+  await rm(join(CASSETTES_DIR, `${cassette}.json`), { force: true });
+  await rm(scriptPath, { force: true });
+});
+
+test("records responses to the cassette", async () => {
+  await setupCassette({ record: true, cassette });
+
+  const echo = await cachedFetch(`${base}/echo`, { ttl: 0 });
+  expect(await echo.json()).toEqual({ echo: 1 });
+
+  const batch = await prefetchGitHubData([
+    "https://github.com/acme/alpha",
+    "https://github.com/acme/beta",
+  ]);
+  expect(batch?.queries).toBe(1);
+  for (const repo of ["alpha", "beta"]) {
+    const data = await fetchGitHubData(`https://github.com/acme/${repo}`);
+    expect(data.stars).toBe(STARS[repo] as number);
+  }
+
+  expect(await saveCassette()).toBe(join(CASSETTES_DIR, `${cassette}.json`));
+});
+
+test("replays recorded responses without the network", async () => {
+  const before = requests.length;
+  await setupCassette({ offline: true, cassette });
+
+  const echo = await cachedFetch(`${base}/echo`, { ttl: 0 });
+
+  expect(await echo.json()).toEqual({ echo: 1 });
+  expect(requests.length).toBe(before);
+  expect(replayedAt()).toBeDefined();
+  expect(() => cachedFetch(`${base}/other`, { ttl: 0 })).toThrow(
+    CassetteMissError,
+  );
+});
+
+test("replays one repo of a batch without GITHUB_TOKEN", async () => {
+  await writeFile(
+    scriptPath,
+    `import { setupCassette } from ${JSON.stringify(`${root}/src/services/cassette`)};
+import { fetchGitHubData, prefetchGitHubData, setActivityDate } from ${JSON.stringify(`${root}/src/services/github`)};
+
+setActivityDate("2026-01-07");
+await setupCassette({ offline: true, cassette: ${JSON.stringify(cassette)} });
+await prefetchGitHubData(["https://github.com/acme/beta"]);
+const data = await fetchGitHubData("https://github.com/acme/beta");
+console.log(JSON.stringify({ stars: data.stars }));
+`,
+  );
+
+  const before = requests.length;
+  const replay = Bun.spawnSync(["bun", scriptPath], {
+    env: { ...process.env, GITHUB_TOKEN: "" },
+    timeout: 60_000,
+  });
+
+  expect(replay.stderr.toString()).toBe("");
+  expect(JSON.parse(replay.stdout.toString())).toEqual({ stars: 20 });
+  expect(requests.length).toBe(before);
+});
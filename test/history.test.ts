@@ -0,0 +1,98 @@
+import { afterAll, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type {
+  MetricsHistory,
+  MetricsPoint,
+  ToolResearch,
+} from "../src/models/types";
+import { appendMetrics, computeVelocity } from "../src/services/history";
+
+const dataDir = await mkdtemp(join(tmpdir(), "dtu-history-"));
+afterAll(() => rm(dataDir, { recursive: true, force: true }));
+
+function point(date: string, values: Partial<MetricsPoint>): MetricsPoint {
+  return { recordedAt: `${date}T19:00:00.000Z`, date, ...values };
+}
+
+function history(...points: MetricsPoint[]): MetricsHistory {
+  return { id: "memory-bank", points };
+}
+
+test("a one-day history has no velocity", () => {
+  const velocity = computeVelocity(
+    history(
+      point("2026-01-06", { stars: 100 }),
+      point("2026-01-07", { stars: 110 }),
+    ),
+  );
+
+  expect(velocity.points).toBe(2);
+  expect(velocity.stars7d).toBeUndefined();
+  expect(velocity.stars30d).toBeUndefined();
+});
+
+test("gains are measured over the window the history covers", () => {
+  const velocity = computeVelocity(
+    history(
+      point("2025-12-08", { stars: 100, npmDownloads: 1000 }),
+      point("2025-12-31", { stars: 200, npmDownloads: 1500 }),
+      point("2026-01-07", { stars: 270, npmDownloads: 2000 }),
+    ),
+  );
+
+  expect(velocity.stars7d).toBe(70);
+  expect(velocity.stars30d).toBe(170);
+  expect(velocity.downloadGrowth30d).toBe(1);
+});
+
+test("a baseline covering most of the window is scaled to it", () => {
+  const velocity = computeVelocity(
+    history(
+      point("2025-12-13", { stars: 100 }), // 25 days back
+      point("2026-01-07", { stars: 200 }),
+    ),
+  );
+
+  expect(velocity.stars30d).toBe(120);
+  expect(velocity.stars7d).toBe(28); // Older baselines scale down
+});
+
+test("asOf ignores later points", () => {
+  const velocity = computeVelocity(
+    history(
+      point("2025-12-31", { stars: 100 }),
+      point("2026-01-07", { stars: 150 }),
+      point("2026-01-08", { stars: 999 }),
+    ),
+    "2026-01-07T23:59:59.000Z",
+  );
+
+  expect(velocity.stars7d).toBe(50);
+});
+
+test("re-running research for a date replaces its point", async () => {
+  const research = (stars: number, researchedAt: string): ToolResearch => ({
+    tool: {
+      name: "Memory Bank",
+      slug: "memory-bank",
+      description: "",
+      category: "other",
+      extractedAt: "2026-01-07T00:00:00Z",
+    },
+    github: { stars } as ToolResearch["github"],
+    webSources: [],
+    date: "2026-01-07",
+    researchedAt,
+  });
+
+  await appendMetrics(dataDir, research(100, "2026-01-07T19:00:00.000Z"));
+  const saved = await appendMetrics(
+    dataDir,
+    research(105, "2026-01-07T21:00:00.000Z"),
+  );
+
+  expect(saved.points).toHaveLength(1);
+  expect(saved.points[0]?.stars).toBe(105);
+});
@@ -0,0 +1,80 @@
+import { expect, test } from "bun:test";
+import { parseInstallCommand } from "../src/services/install";
+
+// Specs without the raw text, which only echoes the command
+function parse(command: string) {
+  return parseInstallCommand(command).map(({ raw: _raw, ...spec }) => spec);
+}
+
+test("scoped npm packages keep their scope", () => {
+  expect(parse("npm install -g @acme/memory-bank@1.2.0")).toEqual([
+    {
+      manager: "npm",
+      packageId: "@acme/memory-bank",
+      version: "1.2.0",
+      global: true,
+    },
+  ]);
+  expect(parse("npx -y @acme/memory-bank")).toEqual([
+    { manager: "npx", packageId: "@acme/memory-bank", global: false },
+  ]);
+});
+
+test("pip extras are dropped and ranges kept", () => {
+  expect(parse("pip install mcp-server[cli]==1.2")).toEqual([
+    { manager: "pip", packageId: "mcp-server", version: "1.2", global: false },
+  ]);
+  expect(parse("pip install 'mcp-server[cli]>=1.0,<2'")).toEqual([
+    {
+      manager: "pip",
+      packageId: "mcp-server",
+      version: ">=1.0,<2",
+      global: false,
+    },
+  ]);
+});
+
+test("docker digests and registry ports aren't read as tags", () => {
+  expect(
+    parse("docker run -p 8080:80 ghcr.io/acme/server@sha256:abc123"),
+  ).toEqual([
+    {
+      manager: "docker",
+      packageId: "ghcr.io/acme/server",
+      version: "sha256:abc123",
+      global: false,
+    },
+  ]);
+  expect(parse("docker pull localhost:5000/acme/server")).toEqual([
+    {
+      manager: "docker",
+      packageId: "localhost:5000/acme/server",
+      global: false,
+    },
+  ]);
+});
+
+test("claude mcp add also yields the package after --", () => {
+  expect(parse("claude mcp add memory -s user -- npx -y @acme/memory")).toEqual(
+    [
+      { manager: "claude-mcp", packageId: "memory", global: true },
+      { manager: "npx", packageId: "@acme/memory", global: false },
+    ],
+  );
+});
+
+test("cargo --git uses the crate name, or else the repo", () => {
+  expect(
+    parse("cargo install --git https://github.com/acme/tool acme-cli"),
+  ).toEqual([{ manager: "cargo", packageId: "acme-cli", global: true }]);
+  expect(
+    parse("cargo install --git https://github.com/acme/tool --tag v1.2"),
+  ).toEqual([
+    {
+      manager: "git",
+      packageId: "https://github.com/acme/tool",
+      version: "v1.2",
+      global: false,
+    },
+  ]);
+});
@@ -0,0 +1,112 @@
+import { afterAll, expect, test } from "bun:test";
+import type { ToolResearch } from "../src/models/types";
+
+// npm registry stand-in: two tools sharing a dependency tree
+const DOCUMENTS: Record<string, object> = {
+  "tool-a": { dependencies: { shared: "^1.0.0" } },
+  "tool-b": { dependencies: { shared: "^1.0.0", "agpl-dep": "^2.0.0" } },
+};
+const MANIFESTS: Record<string, object> = {
+  "shared/^1.0.0": {
+    name: "shared",
+    version: "1.4.0",
+    license: "MIT",
+    dependencies: { leaf: "~3.1.0" },
+  },
+  "leaf/~3.1.0": { name: "leaf", version: "3.1.2", license: "ISC" },
+  "agpl-dep/^2.0.0": {
+    name: "agpl-dep",
+    version: "2.0.1",
+    license: "AGPL-3.0-or-later",
+  },
+};
+const lookups: string[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const path = decodeURIComponent(new URL(req.url).pathname);
+    const [, name, range] = path.match(/^\/npm\/([^/]+)(?:\/(.+))?$/) || [];
+    if (range) {
+      lookups.push(`${name}/${range}`);
+      const manifest = MANIFESTS[`${name}/${range}`];
+      return manifest
+        ? Response.json(manifest)
+        : new Response("Not found", { status: 404 });
+    }
+
+    const document = DOCUMENTS[name || ""];
+    if (!document) return new Response("Not found", { status: 404 });
+    return Response.json({
+      "dist-tags": { latest: "1.0.0" },
+      versions: {
+        "1.0.0": { name, version: "1.0.0", license: "MIT", ...document },
+      },
+      time: { "1.0.0": "2026-01-01T00:00:00Z" },
+    });
+  },
+});
+
+process.env.DTU_NPM_REGISTRY = `http://localhost:${server.port}/npm`;
+process.env.DTU_NPM_API = `http://localhost:${server.port}/npm-api`;
+
+const { setCacheMode } = await import("../src/services/http");
+const { fetchNpmData } = await import("../src/services/npm");
+const { checkLicenses, evaluateLicense, loadLicensePolicy } =
+  await import("../src/services/license");
+
+setCacheMode("off");
+afterAll(() => server.stop(true));
+
+const policy = await loadLicensePolicy();
+
+test("evaluates SPDX IDs and expressions against the policy", () => {
+  expect(evaluateLicense("MIT", policy)).toBe("allow");
+  expect(evaluateLicense("GPL-3.0-only", policy)).toBe("review");
+  expect(evaluateLicense("AGPL-3.0+", policy)).toBe("deny");
+  expect(evaluateLicense("(MIT OR AGPL-3.0)", policy)).toBe("allow");
+  expect(evaluateLicense("MIT AND SSPL-1.0", policy)).toBe("deny");
+  expect(
+    evaluateLicense("GPL-2.0-only WITH Classpath-exception-2.0", policy),
+  ).toBe("review");
+  expect(evaluateLicense("UNLICENSED", policy)).toBe(policy.unlicensed);
+  expect(evaluateLicense(undefined, policy)).toBe(policy.unlicensed);
+  expect(evaluateLicense("Made-Up-1.0", policy)).toBe(policy.unknown);
+});
+
+test("walks the dependency tree and reports denied licenses", async () => {
+  const npm = await fetchNpmData("tool-b");
+  const research: ToolResearch = {
+    tool: {
+      name: "Tool B",
+      slug: "tool-b",
+      description: "",
+      category: "other",
+      extractedAt: "2026-01-07T00:00:00Z",
+    },
+    npm,
+    webSources: [],
+    researchedAt: "2026-01-07T00:00:00Z",
+  };
+
+  const check = checkLicenses(research, policy);
+
+  expect(npm.dependencyLicenses?.checked).toBe(3);
+  expect(npm.dependencyLicenses?.complete).toBe(true);
+  expect(check.verdict).toBe("deny");
+  expect(check.findings).toEqual([
+    {
+      license: "AGPL-3.0-or-later",
+      verdict: "deny",
+      source: "dependency",
+      packages: ["agpl-dep@2.0.1"],
+    },
+  ]);
+});
+
+test("looks each dependency range up once per run", async () => {
+  await fetchNpmData("tool-a");
+
+  expect(lookups.filter((l) => l === "shared/^1.0.0")).toHaveLength(1);
+  expect(lookups.filter((l) => l === "leaf/~3.1.0")).toHaveLength(1);
+});
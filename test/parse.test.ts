@@ -0,0 +1,78 @@
+import { expect, test } from "bun:test";
+import { extractTools } from "../src/commands/parse";
+import { loadClassifierConfig } from "../src/services/classifier";
+
+const classifier = await loadClassifierConfig();
+
+function table(...names: string[]): string {
+  return [
+    "| Tool | Description | GitHub |",
+    "|---|---|---|",
+    ...names.map(
+      (n) => `| ${n} | Does a thing | https://github.com/acme/${n} |`,
+    ),
+  ].join("\n");
+}
+
+test("runs every grammar and picks the most confident", () => {
+  const { parser, tools } = extractTools(table("alpha", "beta"), classifier);
+
+  expect(parser.grammar).toBe("table");
+  expect(parser.candidates.map((c) => c.grammar).sort()).toEqual([
+    "headings",
+    "json",
+    "numbered-list",
+    "table",
+  ]);
+  expect(tools.map((t) => t.githubUrl)).toEqual([
+    "https://github.com/acme/alpha",
+    "https://github.com/acme/beta",
+  ]);
+});
+
+test("merges tools a confident runner-up found", () => {
+  const content = `### Alpha
+Does a thing. https://github.com/acme/alpha
+
+### Beta
+Does another. https://github.com/acme/beta
+
+1. **Gamma** - A third https://github.com/acme/gamma
+`;
+
+  const { parser, tools } = extractTools(content, classifier);
+
+  expect(parser.grammar).toBe("headings");
+  expect(parser.merged).toEqual(["numbered-list"]);
+  expect(tools.map((t) => t.name)).toEqual(["Alpha", "Beta", "Gamma"]);
+});
+
+test("reports tools a runner-up under the threshold found", () => {
+  const content = `${table("alpha", "beta", "delta", "epsilon")}
+
+1. **Gamma**
+   - https://github.com/acme/gamma
+`;
+
+  const { parser, tools, diagnostics } = extractTools(content, classifier);
+
+  expect(parser.merged).toBeUndefined();
+  expect(tools.map((t) => t.name)).not.toContain("Gamma");
+  expect(diagnostics.map((d) => [d.kind, d.tool ?? d.line])).toEqual([
+    ["dropped-tool", "Gamma"],
+    ["orphan-metadata", 9],
+  ]);
+});
+
+test("keeps install commands out of numbered-list descriptions", () => {
+  const content = `1. **Alpha** - Does a thing \`uvx alpha\`
+2. **Beta** - Does another (install: \`npm i -g beta\`)
+`;
+
+  const { tools } = extractTools(content, classifier);
+
+  expect(tools.map((t) => [t.description, t.installCommand])).toEqual([
+    ["Does a thing", "uvx alpha"],
+    ["Does another", "npm i -g beta"],
+  ]);
+});
@@ -0,0 +1,117 @@
+import { expect, test } from "bun:test";
+import type { Tool, ToolRegistry } from "../src/models/types";
+import { registerTools } from "../src/services/registry";
+
+function tool(name: string, extra: Partial<Tool> = {}): Tool {
+  return {
+    name,
+    slug: name.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+    description: "",
+    category: "other",
+    extractedAt: "2026-01-07T00:00:00Z",
+    ...extra,
+  };
+}
+
+function repo(url: string): Partial<Tool> {
+  return { links: [{ kind: "repo", url }] };
+}
+
+function emptyRegistry(): ToolRegistry {
+  return { entries: [], updatedAt: "" };
+}
+
+const MONOREPO = "https://github.com/anthropics/claude-code";
+
+test("tools from one monorepo get separate IDs", () => {
+  const registry = emptyRegistry();
+  const tools = [
+    tool("Code Review Plugin", repo(MONOREPO)),
+    tool("Commit Commands Plugin", repo(MONOREPO)),
+  ];
+
+  registerTools(registry, "2026-01-07", tools);
+
+  expect(tools.map((t) => t.id)).toEqual([
+    "code-review-plugin",
+    "commit-commands-plugin",
+  ]);
+});
+
+test("monorepo tools keep their own IDs on later days", () => {
+  const registry = emptyRegistry();
+  registerTools(registry, "2026-01-07", [
+    tool("Code Review Plugin", repo(MONOREPO)),
+    tool("Commit Commands Plugin", repo(MONOREPO)),
+  ]);
+
+  const later = [
+    tool("Commit Commands Plugin", repo(MONOREPO)),
+    tool("Code Review Plugin", repo(MONOREPO)),
+  ];
+  registerTools(registry, "2026-01-08", later);
+
+  expect(later.map((t) => t.id)).toEqual([
+    "commit-commands-plugin",
+    "code-review-plugin",
+  ]);
+  expect(registry.entries).toHaveLength(2);
+});
+
+test("a repo and a similar name match across days", () => {
+  const registry = emptyRegistry();
+  const url = "https://github.com/acme/claude-memory";
+  registerTools(registry, "2026-01-07", [tool("Claude Memory", repo(url))]);
+
+  const renamed = tool("Claude Code Memory Plugin", repo(`${url}.git`));
+  registerTools(registry, "2026-01-08", [renamed]);
+
+  expect(renamed.id).toBe("claude-memory");
+});
+
+test("a shared package matches under a new name", () => {
+  const registry = emptyRegistry();
+  registerTools(registry, "2026-01-07", [
+    tool("Memory Bank", { installCommand: "npm install -g @acme/memory" }),
+  ]);
+
+  const renamed = tool("Acme Recall", {
+    installCommand: "npx @acme/memory",
+  });
+  registerTools(registry, "2026-01-08", [renamed]);
+
+  expect(renamed.id).toBe("memory-bank");
+});
+
+test("similar names without a shared link stay apart", () => {
+  const registry = emptyRegistry();
+  registerTools(registry, "2026-01-07", [tool("Memory MCP Server")]);
+
+  const other = tool("Claude Memory");
+  registerTools(registry, "2026-01-08", [other]);
+
+  expect(other.id).toBe("claude-memory");
+  expect(registry.entries).toHaveLength(2);
+});
+
+test("same-named tools in one update get different IDs", () => {
+  const registry = emptyRegistry();
+  const tools = [
+    tool("Agent Kit", repo("https://github.com/one/agent-kit")),
+    tool("Agent Kit", repo("https://github.com/two/agent-kit")),
+  ];
+
+  const diagnostics = registerTools(registry, "2026-01-07", tools);
+
+  expect(tools.map((t) => t.id)).toEqual(["agent-kit", "agent-kit-2"]);
+  expect(diagnostics.map((d) => d.kind)).toEqual(["slug-collision"]);
+});
+
+test("registering a date again replaces its mentions", () => {
+  const registry = emptyRegistry();
+  registerTools(registry, "2026-01-07", [tool("Memory Bank")]);
+  registerTools(registry, "2026-01-07", [tool("Memory Bank")]);
+
+  expect(registry.entries).toHaveLength(1);
+  expect(registry.entries[0]?.mentions).toBe(1);
+});
@@ -0,0 +1,116 @@
+/**
+ * Research smoke test - GitHub and npm lookups against a local stand-in
+ *
+ * The API base URLs are read when the services load, so the server starts
+ * and DTU_GITHUB_API / DTU_NPM_REGISTRY / DTU_NPM_API are set before the
+ * services are imported. Nothing here reaches the real APIs.
+ */
+
+import { afterAll, expect, test } from "bun:test";
+import type { Tool } from "../src/models/types";
+
+const requests: string[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  fetch(req) {
+    // npm package names arrive encoded (@acme%2Fmemory-bank)
+    const path = decodeURIComponent(new URL(req.url).pathname);
+    requests.push(`${req.method} ${path}`);
+
+    switch (path) {
+      case "/gh/search/repositories":
+        return Response.json({
+          items: [
+            {
+              html_url: "https://github.com/acme/memory-bank",
+              name: "memory-bank",
+              description: "Persistent memory bank for Claude sessions",
+              owner: { login: "acme" },
+            },
+          ],
+        });
+      case "/gh/repos/acme/memory-bank":
+        return Response.json({
+          stargazers_count: 420,
+          forks_count: 12,
+          open_issues_count: 3,
+          pushed_at: "2026-01-05T12:00:00Z",
+          created_at: "2025-06-01T00:00:00Z",
+          language: "TypeScript",
+          license: { spdx_id: "MIT" },
+          default_branch: "main",
+        });
+      case "/gh/repos/acme/memory-bank/git/trees/main":
+        return Response.json({
+          tree: [{ path: "tests" }, { path: ".github/workflows/ci.yml" }],
+        });
+      case "/gh/repos/acme/memory-bank/readme":
+        return new Response("# Memory Bank");
+      case "/npm/@acme/memory-bank":
+        return Response.json({
+          "dist-tags": { latest: "1.2.0" },
+          maintainers: [{ name: "acme" }],
+          versions: { "1.2.0": { license: "MIT" } },
+          time: {
+            created: "2025-06-01T00:00:00Z",
+            "1.2.0": "2026-01-02T00:00:00Z",
+          },
+        });
+      case "/npmapi/downloads/point/last-week/@acme/memory-bank":
+        return Response.json({ downloads: 1234 });
+    }
+
+    // Releases, commits and contributors are optional
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+const base = `http://localhost:${server.port}`;
+process.env.DTU_GITHUB_API = `${base}/gh`;
+process.env.DTU_NPM_REGISTRY = `${base}/npm`;
+process.env.DTU_NPM_API = `${base}/npmapi`;
+delete process.env.GITHUB_TOKEN; // REST, not GraphQL
+
+const { setCacheMode } = await import("../src/services/http");
+const { discoverRepo } = await import("../src/services/discovery");
+const { fetchGitHubData } = await import("../src/services/github");
+const { fetchNpmData } = await import("../src/services/npm");
+
+// Keep data/cache out of it
+setCacheMode("off");
+
+afterAll(() => server.stop(true));
+
+const tool: Tool = {
+  name: "Memory Bank",
+  slug: "memory-bank",
+  description: "Persistent memory for Claude sessions",
+  category: "other",
+  extractedAt: "2026-01-07T00:00:00Z",
+};
+
+test("discovers the repo through the search endpoint", async () => {
+  const match = await discoverRepo(tool);
+
+  expect(match?.match).toBe("https://github.com/acme/memory-bank");
+  expect(requests).toContain("GET /gh/search/repositories");
+});
+
+test("fetches GitHub data from the stand-in API", async () => {
+  const data = await fetchGitHubData("https://github.com/acme/memory-bank");
+
+  expect(data.stars).toBe(420);
+  expect(data.license).toBe("MIT");
+  expect(data.hasTests).toBe(true);
+  expect(data.hasCI).toBe(true);
+  expect(data.readme).toBe("# Memory Bank");
+});
+
+test("fetches npm data from the stand-in registry", async () => {
+  const data = await fetchNpmData("@acme/memory-bank");
+
+  expect(data.version).toBe("1.2.0");
+  expect(data.weeklyDownloads).toBe(1234);
+  expect(data.lastPublished).toBe("2026-01-02T00:00:00Z");
+});